@@ -1,6 +1,8 @@
 import { EventStoreDBClient as Client } from '@eventstore/db-client';
 import { AggregateHelper } from './aggregateHelper';
 import { BaseEvent } from './types';
+import { EventValidationError, jsonSchemaValidator } from './eventValidation';
+import { runWithMetadataContext } from './metadataContext';
 
 interface TestState {
   id: string;
@@ -70,6 +72,22 @@ describe('AggregateHelper', () => {
       expect(mockClient.appendToStream).toHaveBeenCalled();
     });
 
+    it('should stamp the metadata context on committed events', async () => {
+      const context = { correlationId: 'flow-1', causationId: 'command-1' };
+
+      await runWithMetadataContext(context, async () => {
+        await aggregateHelper.beginTransaction('test-123');
+        await aggregateHelper.addEvent('test-123', { type: 'TestEvent', data: { value: 'test' } }, [
+          { id: 'item-1', type: 'item', version: 1 },
+        ]);
+        await aggregateHelper.commitTransaction('test-123');
+      });
+
+      const stamped = expect.objectContaining({ metadata: { $correlationId: 'flow-1', $causationId: 'command-1' } });
+      expect(mockClient.appendToStream).toHaveBeenCalledWith('test-item--item-1', [stamped]);
+      expect(mockClient.appendToStream).toHaveBeenCalledWith('test-aggregate-test-123', [stamped]);
+    });
+
     it('should handle transaction rollback', async () => {
       const aggregateId = 'test-123';
       const event: Omit<TestEvent, 'affectedEntities'> = {
@@ -118,5 +136,21 @@ describe('AggregateHelper', () => {
       // Attempt to commit transaction
       await expect(aggregateHelper.commitTransaction(aggregateId)).rejects.toThrow('Append failed');
     });
+
+    it('should reject invalid events before they join the transaction', async () => {
+      const validatingHelper = new AggregateHelper<TestState, TestEvent>(mockClient, {
+        aggregatePrefix: 'test-aggregate-',
+        eventValidators: {
+          TestEvent: jsonSchemaValidator({ type: 'object', properties: { value: { type: 'string', minLength: 1 } } }),
+        },
+      });
+
+      await validatingHelper.beginTransaction('test-123');
+      await expect(validatingHelper.addEvent('test-123', { type: 'TestEvent', data: { value: '' } }))
+        .rejects.toBeInstanceOf(EventValidationError);
+
+      await validatingHelper.commitTransaction('test-123');
+      expect(mockClient.appendToStream).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,6 +1,7 @@
-import { EventStoreDBClient, jsonEvent } from '@eventstore/db-client';
 import { StreamHelper } from './streamHelpers';
-import { BaseEvent, JSONType } from './types';
+import { BaseEvent, EventStoreClient, JSONType, StreamConfig } from './types';
+import { stampMetadata } from './metadataContext';
+import { randomUUID } from 'crypto';
 
 interface EntityReference {
   id: string;
@@ -12,40 +13,25 @@ export interface AggregateEvent extends BaseEvent {
   affectedEntities?: EntityReference[];
 }
 
-interface AggregateConfig<E extends AggregateEvent> {
-  snapshotFrequency?: number;
-  snapshotPrefix?: string;
-  currentEventVersion?: number;
-  eventMigrations?: any[];
+type AggregateConfig<E extends AggregateEvent> = StreamConfig<E> & {
   aggregatePrefix?: string;
   entityPrefixes?: Record<string, string>;
-}
+};
 
 /**
  * AggregateHelper extends StreamHelper to provide support for managing aggregate roots
  * and their related entities across multiple streams atomically.
  */
 export class AggregateHelper<S extends JSONType, E extends AggregateEvent> extends StreamHelper<S, E> {
-  private aggregateConfig: Required<AggregateConfig<E>>;
+  private aggregateConfig: Required<Pick<AggregateConfig<E>, 'aggregatePrefix' | 'entityPrefixes'>>;
   private pendingEvents: Map<string, E[]> = new Map();
   private entityVersions: Map<string, number> = new Map();
 
-  constructor(client: EventStoreDBClient, config: AggregateConfig<E>) {
-    super(client, {
-      snapshotFrequency: config.snapshotFrequency,
-      snapshotPrefix: config.snapshotPrefix,
-      currentEventVersion: config.currentEventVersion,
-      eventMigrations: config.eventMigrations,
-    });
-
+  constructor(client: EventStoreClient, config: AggregateConfig<E>) {
+    super(client, config);
     this.aggregateConfig = {
-      ...config,
       aggregatePrefix: config.aggregatePrefix ?? 'aggregate-',
       entityPrefixes: config.entityPrefixes ?? {},
-      snapshotFrequency: config.snapshotFrequency ?? 100,
-      snapshotPrefix: config.snapshotPrefix ?? 'snapshot-',
-      currentEventVersion: config.currentEventVersion ?? 1,
-      eventMigrations: config.eventMigrations ?? [],
     };
   }
 
@@ -63,6 +49,7 @@ export class AggregateHelper<S extends JSONType, E extends AggregateEvent> exten
    * @param aggregateId - The ID of the aggregate root
    * @param event - The event to add
    * @param affectedEntities - List of entities affected by this event
+   * @throws EventValidationError when the event fails its configured validator
    */
   async addEvent(
     aggregateId: string,
@@ -80,6 +67,7 @@ export class AggregateHelper<S extends JSONType, E extends AggregateEvent> exten
       ...event,
       affectedEntities,
     } as E;
+    await this.assertValidEvent(streamId, fullEvent);
 
     pendingEvents.push(fullEvent);
     this.pendingEvents.set(streamId, pendingEvents);
@@ -104,8 +92,12 @@ export class AggregateHelper<S extends JSONType, E extends AggregateEvent> exten
     }
 
     try {
+      const encryptedEvents = await Promise.all(pendingEvents.map(event => this.encryptEvent(event)));
+      const eventIds = pendingEvents.map(() => randomUUID());
+      const context = this.getMetadataContext(eventIds);
+
       // Append events to each affected entity's stream
-      for (const event of pendingEvents) {
+      for (const event of encryptedEvents) {
         if (event.affectedEntities) {
           for (const entity of event.affectedEntities) {
             const entityStreamId = this.getEntityStreamId(entity.type, entity.id);
@@ -118,9 +110,10 @@ export class AggregateHelper<S extends JSONType, E extends AggregateEvent> exten
             
             // Append event to entity stream
             await this.client.appendToStream(entityStreamId, [
-              jsonEvent({
+              this.encodeEvent({
                 type: event.type,
-                data: eventData
+                data: eventData,
+                metadata: stampMetadata(event.metadata, context)
               })
             ]);
           }
@@ -128,16 +121,18 @@ export class AggregateHelper<S extends JSONType, E extends AggregateEvent> exten
       }
 
       // Append events to the aggregate stream
-      const events = pendingEvents.map(event => {
+      const events = encryptedEvents.map((event, index) => {
         const eventData: JSONType = {
           type: event.type,
           data: event.data,
           metadata: event.metadata,
           affectedEntities: event.affectedEntities || []
         };
-        return jsonEvent({
+        return this.encodeEvent({
+          id: eventIds[index],
           type: event.type,
-          data: eventData
+          data: eventData,
+          metadata: stampMetadata(event.metadata, context)
         });
       });
       await this.client.appendToStream(streamId, events);
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { EventStoreCheckpointStore, FileSystemCheckpointStore, InMemoryCheckpointStore } from './checkpointStores';
+import { Checkpoint } from './types';
+
+const revision: Checkpoint = { revision: BigInt('9007199254740993') };
+const position: Checkpoint = { position: { commit: BigInt(42), prepare: BigInt(41) } };
+
+describe('InMemoryCheckpointStore', () => {
+  it('should save, load and delete checkpoints', async () => {
+    const store = new InMemoryCheckpointStore();
+    expect(await store.load('projector')).toBeNull();
+
+    await store.save('projector', revision);
+    expect(await store.load('projector')).toEqual(revision);
+
+    await store.delete('projector');
+    expect(await store.load('projector')).toBeNull();
+  });
+});
+
+describe('FileSystemCheckpointStore', () => {
+  let directory: string;
+  let store: FileSystemCheckpointStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+    store = new FileSystemCheckpointStore(path.join(directory, 'nested'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip revisions and positions beyond the safe integer range', async () => {
+    await store.save('stream-projector', revision);
+    await store.save('all-projector', position);
+
+    expect(await store.load('stream-projector')).toEqual(revision);
+    expect(await store.load('all-projector')).toEqual(position);
+  });
+
+  it('should encode subscription IDs into safe file names and delete them', async () => {
+    await store.save('orders/../projector', position);
+    expect(await fs.readdir(path.join(directory, 'nested'))).toEqual([`${encodeURIComponent('orders/../projector')}.json`]);
+
+    await store.delete('orders/../projector');
+    expect(await store.load('orders/../projector')).toBeNull();
+  });
+});
+
+describe('EventStoreCheckpointStore', () => {
+  let client: InMemoryEventStore;
+  let store: EventStoreCheckpointStore;
+
+  beforeEach(() => {
+    client = new InMemoryEventStore();
+    store = new EventStoreCheckpointStore(client);
+  });
+
+  it('should keep only the latest checkpoint in the checkpoint stream', async () => {
+    expect(await store.load('projector')).toBeNull();
+
+    await store.save('projector', revision);
+    await store.save('projector', position);
+
+    expect(await store.load('projector')).toEqual(position);
+    expect((await client.getStreamMetadata('checkpoint-projector')).metadata).toEqual({ maxCount: 1 });
+  });
+
+  it('should delete the checkpoint stream', async () => {
+    await store.save('projector', revision);
+    await store.delete('projector');
+
+    expect(await store.load('projector')).toBeNull();
+  });
+});
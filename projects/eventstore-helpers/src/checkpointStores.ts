@@ -0,0 +1,164 @@
+/**
+ * CheckpointStore implementations used by SubscriptionHelper to remember how far each
+ * subscription got.
+ *
+ * - InMemoryCheckpointStore: for tests and subscriptions that may start over on restart
+ * - FileSystemCheckpointStore: one JSON file per subscription, for single-node deployments
+ * - EventStoreCheckpointStore: a `${prefix}${subscriptionId}` stream keeping the latest checkpoint
+ *
+ * Revisions and positions are stored as decimal strings, so they survive JSON unchanged.
+ */
+import { BACKWARDS, END, StreamNotFoundError } from '@eventstore/db-client';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Checkpoint, CheckpointStore, EventStoreClient, JSONType } from './types';
+import { decodeEvent } from './eventDecoder';
+
+// A checkpoint as JSON, with revisions and positions as decimal strings
+export type StoredCheckpoint = { revision: string } | { commit: string; prepare: string };
+
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private checkpoints: Map<string, Checkpoint> = new Map();
+
+  async load(subscriptionId: string): Promise<Checkpoint | null> {
+    return this.checkpoints.get(subscriptionId) ?? null;
+  }
+
+  async save(subscriptionId: string, checkpoint: Checkpoint): Promise<void> {
+    this.checkpoints.set(subscriptionId, checkpoint);
+  }
+
+  async delete(subscriptionId: string): Promise<void> {
+    this.checkpoints.delete(subscriptionId);
+  }
+}
+
+export class FileSystemCheckpointStore implements CheckpointStore {
+  private directory: string;
+
+  /**
+   * @param directory - Directory holding one `<subscriptionId>.json` file per subscription, created on first save
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async load(subscriptionId: string): Promise<Checkpoint | null> {
+    try {
+      const contents = await fs.readFile(this.getFilePath(subscriptionId), 'utf8');
+      return fromStoredCheckpoint(JSON.parse(contents));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the checkpoint to a temporary file and renames it, so a crash never leaves a partial file.
+   */
+  async save(subscriptionId: string, checkpoint: Checkpoint): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.getFilePath(subscriptionId);
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(toStoredCheckpoint(checkpoint)), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(subscriptionId: string): Promise<void> {
+    await fs.rm(this.getFilePath(subscriptionId), { force: true });
+  }
+
+  private getFilePath(subscriptionId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(subscriptionId)}.json`);
+  }
+}
+
+interface EventStoreCheckpointStoreOptions {
+  // Prefix of the checkpoint stream names, defaults to 'checkpoint-'
+  prefix?: string;
+}
+
+export class EventStoreCheckpointStore implements CheckpointStore {
+  private client: EventStoreClient;
+  private prefix: string;
+
+  constructor(client: EventStoreClient, options: EventStoreCheckpointStoreOptions = {}) {
+    this.client = client;
+    this.prefix = options.prefix ?? 'checkpoint-';
+  }
+
+  /**
+   * Loads the latest checkpoint with a single backwards read of the checkpoint stream.
+   */
+  async load(subscriptionId: string): Promise<Checkpoint | null> {
+    try {
+      const readStream = this.client.readStream(this.getStreamName(subscriptionId), {
+        direction: BACKWARDS,
+        fromRevision: END,
+        maxCount: 1,
+      });
+      for await (const resolvedEvent of readStream) {
+        const event = decodeEvent(resolvedEvent);
+        if (event?.type === 'Checkpoint') {
+          return fromStoredCheckpoint(event.data as StoredCheckpoint);
+        }
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof StreamNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Appends a checkpoint event. The first write sets the stream's $maxCount to 1, so only the
+   * latest checkpoint is kept.
+   */
+  async save(subscriptionId: string, checkpoint: Checkpoint): Promise<void> {
+    const streamName = this.getStreamName(subscriptionId);
+    const result = await this.client.appendToStream(streamName, [{
+      id: randomUUID(),
+      type: 'Checkpoint',
+      data: toStoredCheckpoint(checkpoint) as JSONType,
+      metadata: {},
+      contentType: 'application/json' as const,
+    }]);
+
+    if (result.nextExpectedRevision === BigInt(0)) {
+      await this.client.setStreamMetadata(streamName, { maxCount: 1 });
+    }
+  }
+
+  async delete(subscriptionId: string): Promise<void> {
+    await this.client.deleteStream(this.getStreamName(subscriptionId));
+  }
+
+  private getStreamName(subscriptionId: string): string {
+    return `${this.prefix}${subscriptionId}`;
+  }
+}
+
+/**
+ * Converts a checkpoint to JSON, for stores that keep checkpoints as documents.
+ */
+export function toStoredCheckpoint(checkpoint: Checkpoint): StoredCheckpoint {
+  if ('revision' in checkpoint) {
+    return { revision: checkpoint.revision.toString() };
+  }
+  return { commit: checkpoint.position.commit.toString(), prepare: checkpoint.position.prepare.toString() };
+}
+
+/**
+ * Reads a checkpoint written by toStoredCheckpoint.
+ */
+export function fromStoredCheckpoint(stored: StoredCheckpoint): Checkpoint {
+  if ('revision' in stored) {
+    return { revision: BigInt(stored.revision) };
+  }
+  return { position: { commit: BigInt(stored.commit), prepare: BigInt(stored.prepare) } };
+}
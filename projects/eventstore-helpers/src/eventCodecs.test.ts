@@ -0,0 +1,167 @@
+import { ResolvedEvent } from '@eventstore/db-client';
+import { gunzipSync } from 'zlib';
+import { binaryCodec, encodeEventData, jsonCodec } from './eventCodecs';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent, JSONType } from './types';
+
+const collect = async (read: AsyncIterable<ResolvedEvent>) => {
+  const events: ResolvedEvent[] = [];
+  for await (const resolvedEvent of read) {
+    events.push(resolvedEvent);
+  }
+  return events;
+};
+
+const data = {
+  amount: BigInt('12345678901234567890'),
+  occurredAt: new Date('2025-01-20T15:49:09.000Z'),
+  balances: new Map([['EUR', BigInt(10)]]),
+  tags: new Set(['a', 'b']),
+  price: { toJSON: () => '19.99' },
+  note: 'not a date',
+};
+
+describe('jsonCodec', () => {
+  it('should round-trip bigint, dates, maps and sets through JSON', () => {
+    const codec = jsonCodec();
+
+    const encoded = codec.encode(data);
+    const decoded = codec.decode(JSON.parse(JSON.stringify(encoded)));
+
+    expect(encoded).toEqual({
+      amount: { $bigint: '12345678901234567890' },
+      occurredAt: { $date: '2025-01-20T15:49:09.000Z' },
+      balances: { $map: [['EUR', { $bigint: '10' }]] },
+      tags: { $set: ['a', 'b'] },
+      price: '19.99',
+      note: 'not a date',
+    });
+    expect(decoded).toEqual({ ...data, price: '19.99' });
+    expect(decoded.occurredAt).toBeInstanceOf(Date);
+  });
+
+  it('should read strings that look like dates back as strings', () => {
+    const decoded = jsonCodec().decode({ occurredAt: '2025-01-20T15:49:09-05:00' });
+
+    expect(decoded.occurredAt).toBe('2025-01-20T15:49:09-05:00');
+  });
+});
+
+describe('binaryCodec', () => {
+  it('should write UTF-8 JSON bytes readable by the JSON codec', () => {
+    const encoded = binaryCodec().encode({ amount: BigInt(5) }) as Uint8Array;
+
+    expect(encoded).toBeInstanceOf(Uint8Array);
+    expect(Buffer.from(encoded).toString('utf8')).toBe('{"amount":{"$bigint":"5"}}');
+    expect(jsonCodec().decode(encoded)).toEqual({ amount: BigInt(5) });
+  });
+
+  it('should gzip payloads from the compression threshold', () => {
+    const codec = binaryCodec({ compress: true, compressionThreshold: 100 });
+    const large = { text: 'x'.repeat(500) };
+
+    const small = codec.encode({ text: 'x' }) as Uint8Array;
+    const compressed = codec.encode(large) as Uint8Array;
+
+    expect(small[0]).toBe('{'.charCodeAt(0));
+    expect(compressed.length).toBeLessThan(100);
+    expect(JSON.parse(gunzipSync(compressed).toString('utf8'))).toEqual(large);
+    expect(codec.decode(compressed)).toEqual(large);
+  });
+});
+
+describe('encodeEventData', () => {
+  it('should build JSON or binary events depending on the codec', () => {
+    const event = { id: 'a0b1c2d3-0000-4000-8000-000000000000', type: 'Deposited', data: { amount: BigInt(1) }, metadata: { version: 1 } };
+
+    const json = encodeEventData(jsonCodec(), event);
+    const binary = encodeEventData(binaryCodec(), event);
+
+    expect(json).toEqual(expect.objectContaining({
+      id: event.id,
+      contentType: 'application/json',
+      data: { amount: { $bigint: '1' } },
+      metadata: { version: 1 },
+    }));
+    expect(binary).toEqual(expect.objectContaining({ id: event.id, contentType: 'application/octet-stream' }));
+    expect(binary.data).toBeInstanceOf(Uint8Array);
+  });
+});
+
+describe('with StreamHelper', () => {
+  let store: InMemoryEventStore;
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  it('should store events with the configured codec and read them with either codec', async () => {
+    type LedgerEntry = BaseEvent<'LedgerEntry', { amount: bigint; bookedAt: Date }>;
+    const entry: LedgerEntry = {
+      type: 'LedgerEntry',
+      data: { amount: BigInt('9007199254740993'), bookedAt: new Date('2025-01-20T15:49:09.000Z') },
+    };
+    const binaryHelper = new StreamHelper<JSONType, LedgerEntry>(store, {
+      eventCodec: binaryCodec({ compress: true, compressionThreshold: 0 }),
+    });
+    const jsonHelper = new StreamHelper<JSONType, LedgerEntry>(store, {});
+
+    await binaryHelper.appendEvent('ledger-1', entry);
+    await jsonHelper.appendEvent('ledger-1', entry);
+
+    const [binary, json] = await collect(store.readStream('ledger-1'));
+    expect(binary.event?.isJson).toBe(false);
+    expect(json.event?.isJson).toBe(true);
+    for (const helper of [binaryHelper, jsonHelper]) {
+      const read: LedgerEntry[] = [];
+      for await (const event of helper.readStream('ledger-1')) {
+        read.push(event);
+      }
+      expect(read.map(event => event.data)).toEqual([entry.data, entry.data]);
+    }
+  });
+
+  it('should snapshot state with the configured codec', async () => {
+    type Ledger = { total: bigint; lastBookedAt: Date };
+    type LedgerEntry = BaseEvent<'LedgerEntry', { amount: bigint; bookedAt: Date }>;
+    const applyEntry = (state: Ledger | null, event: LedgerEntry): Ledger => ({
+      total: (state?.total ?? BigInt(0)) + event.data.amount,
+      lastBookedAt: event.data.bookedAt,
+    });
+    const expected: Ledger = { total: BigInt('9007199254740993'), lastBookedAt: new Date('2025-01-20T15:49:09.000Z') };
+
+    for (const eventCodec of [jsonCodec(), binaryCodec({ compress: true, compressionThreshold: 0 })]) {
+      const streamId = `ledger-${eventCodec.contentType}`;
+      const helper = new StreamHelper<Ledger, LedgerEntry>(store, { eventCodec, snapshotFrequency: 1 });
+      await helper.appendEvent(streamId, { type: 'LedgerEntry', data: { amount: expected.total, bookedAt: expected.lastBookedAt } });
+
+      await helper.getCurrentState(streamId, applyEntry);
+      await helper.flushSnapshots();
+
+      expect(await helper.getLatestSnapshot(streamId)).toEqual(expect.objectContaining({ state: expected, version: 1 }));
+      expect(await helper.getCurrentState(streamId, applyEntry)).toEqual({ state: expected, version: 1 });
+    }
+  });
+
+  it('should keep strings that look like dates through reads and transactions', async () => {
+    type NoteAdded = BaseEvent<'NoteAdded', { text: string }>;
+    const note: NoteAdded = { type: 'NoteAdded', data: { text: '2025-01-20T15:49:09-05:00' } };
+    const streamHelper = new StreamHelper<JSONType, NoteAdded>(store, {});
+
+    await streamHelper.appendEvent('notes-1', note);
+    await streamHelper.appendMultiStreamEvents('t1', [{ streamId: 'notes-2', event: note }]);
+    await streamHelper.processTransactionStream('$tx-t1');
+
+    for (const streamId of ['notes-1', 'notes-2']) {
+      const read: NoteAdded[] = [];
+      for await (const event of streamHelper.readStream(streamId)) {
+        read.push(event);
+      }
+      expect(read.map(event => event.data)).toEqual([note.data]);
+      for await (const resolvedEvent of store.readStream(streamId)) {
+        expect(resolvedEvent.event?.data).toEqual(note.data);
+      }
+    }
+  });
+});
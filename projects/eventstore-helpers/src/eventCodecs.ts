@@ -0,0 +1,164 @@
+/**
+ * Serialization of event data.
+ *
+ * StreamHelper encodes event data with the `eventCodec` of its config before every append and
+ * decodes it on every read. Both codecs shipped here write values plain JSON cannot hold in a
+ * tagged form and restore them on read:
+ *
+ * - `bigint` as `{ "$bigint": "123" }`
+ * - `Map` as `{ "$map": [[key, value], ...] }` and `Set` as `{ "$set": [...] }`
+ * - `Date` as `{ "$date": "2025-01-20T15:49:09.000Z" }`
+ * - objects with a `toJSON` method, such as decimal types, as the value it returns
+ *
+ * Strings are always read back as strings, even when they look like dates.
+ *
+ * `jsonCodec` writes JSON events; `binaryCodec` writes the same JSON as bytes with `binaryEvent`,
+ * gzipped when compression is enabled and the payload is large. Either codec reads events written
+ * by the other, so a stream can switch codecs without migrating stored events.
+ */
+import { binaryEvent, EventData, jsonEvent } from '@eventstore/db-client';
+import { gunzipSync, gzipSync } from 'zlib';
+import { JSONType } from './types';
+
+export type EncodedEventData = JSONType | Uint8Array;
+
+export interface EventCodec {
+  // Content type of the events written with this codec
+  readonly contentType: 'application/json' | 'application/octet-stream';
+  // Turns event data into what is stored: a JSON object for JSON events, bytes for binary events
+  encode(data: JSONType): EncodedEventData;
+  // Restores event data as read, for events of either content type
+  decode(data: EncodedEventData): JSONType;
+}
+
+export type BinaryCodecOptions = {
+  // Gzip payloads of at least `compressionThreshold` bytes, defaults to false
+  compress?: boolean;
+  // Size in bytes from which payloads are compressed, defaults to 1024
+  compressionThreshold?: number;
+};
+
+type Encodable = {
+  id?: string;
+  type: string;
+  data: JSONType;
+  metadata?: unknown;
+};
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/**
+ * Creates a codec writing JSON events.
+ *
+ * @returns The codec, for use as `eventCodec`
+ */
+export function jsonCodec(): EventCodec {
+  return {
+    contentType: 'application/json',
+    encode: data => toJSONValue(data) as JSONType,
+    decode: decodeData,
+  };
+}
+
+/**
+ * Creates a codec writing binary events holding UTF-8 JSON, optionally gzipped.
+ *
+ * @param options - Compression options
+ * @returns The codec, for use as `eventCodec`
+ */
+export function binaryCodec(options: BinaryCodecOptions = {}): EventCodec {
+  const compressionThreshold = options.compressionThreshold ?? 1024;
+  return {
+    contentType: 'application/octet-stream',
+    encode: data => {
+      const bytes = Buffer.from(JSON.stringify(toJSONValue(data)), 'utf8');
+      const encoded = options.compress && bytes.length >= compressionThreshold ? gzipSync(bytes) : bytes;
+      return new Uint8Array(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+    },
+    decode: decodeData,
+  };
+}
+
+/**
+ * Builds the event to append, encoding its data with the codec.
+ *
+ * @param codec - The codec deciding the content type and encoding
+ * @param event - The event type, data, metadata and optional ID
+ * @returns The event data for `appendToStream`
+ */
+export function encodeEventData(codec: EventCodec, event: Encodable): EventData {
+  const data = codec.encode(event.data);
+  if (codec.contentType === 'application/octet-stream') {
+    return binaryEvent({
+      id: event.id,
+      type: event.type,
+      data: data as Uint8Array,
+      metadata: event.metadata,
+    });
+  }
+  return jsonEvent({
+    id: event.id,
+    type: event.type,
+    data: data as JSONType,
+    metadata: event.metadata,
+  });
+}
+
+function decodeData(data: EncodedEventData): JSONType {
+  if (data instanceof Uint8Array) {
+    const bytes = data[0] === GZIP_MAGIC[0] && data[1] === GZIP_MAGIC[1] ? gunzipSync(data) : data;
+    return fromJSONValue(JSON.parse(Buffer.from(bytes).toString('utf8'))) as JSONType;
+  }
+  return fromJSONValue(data) as JSONType;
+}
+
+function toJSONValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : { $date: value.toISOString() };
+  }
+  if (value instanceof Map) {
+    return { $map: [...value].map(([key, entry]) => [toJSONValue(key), toJSONValue(entry)]) };
+  }
+  if (value instanceof Set) {
+    return { $set: [...value].map(toJSONValue) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJSONValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      return toJSONValue((value as { toJSON: () => unknown }).toJSON());
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toJSONValue(entry)]));
+  }
+  return value;
+}
+
+function fromJSONValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(fromJSONValue);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value);
+    if (entries.length === 1) {
+      const [tag, tagged] = entries[0];
+      if (tag === '$bigint' && typeof tagged === 'string') {
+        return BigInt(tagged);
+      }
+      if (tag === '$date' && typeof tagged === 'string') {
+        return new Date(tagged);
+      }
+      if (tag === '$map' && Array.isArray(tagged)) {
+        return new Map(tagged.map(([key, entry]) => [fromJSONValue(key), fromJSONValue(entry)]));
+      }
+      if (tag === '$set' && Array.isArray(tagged)) {
+        return new Set(tagged.map(fromJSONValue));
+      }
+    }
+    return Object.fromEntries(entries.map(([key, entry]) => [key, fromJSONValue(entry)]));
+  }
+  return value;
+}
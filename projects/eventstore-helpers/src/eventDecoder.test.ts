@@ -0,0 +1,143 @@
+import { ResolvedEvent, jsonEvent } from '@eventstore/db-client';
+import { decodeEnvelope, decodeEvent, getEventVersion } from './eventDecoder';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent, EnvelopedEvent, EventEnvelope, EventMigration } from './types';
+
+const created = new Date('2025-01-20T15:49:09Z');
+
+const resolved = (metadata: unknown): ResolvedEvent => ({
+  event: {
+    streamId: 'account-1',
+    id: 'f3b1a7a2-0c4e-4a55-9d57-8a3c0b1e2d4f',
+    revision: BigInt(0),
+    type: 'AccountCreated',
+    isJson: true,
+    data: { owner: 'Ada' },
+    metadata,
+    created,
+    position: { commit: BigInt(42), prepare: BigInt(40) },
+  },
+} as unknown as ResolvedEvent);
+
+interface CounterState {
+  count: number;
+  [key: string]: unknown;
+}
+
+interface CounterIncremented extends BaseEvent<'CounterIncremented', {
+  by: number;
+}> { }
+
+const applyEvent = (state: CounterState | null, event: CounterIncremented): CounterState => ({
+  count: (state?.count ?? 0) + event.data.by,
+});
+
+const increment = (by: number) => jsonEvent({ type: 'CounterIncremented', data: { by } });
+
+describe('eventDecoder', () => {
+  it('should take the version from metadata', () => {
+    expect(decodeEvent(resolved({ version: 3, userId: 'u-1' }))).toEqual({
+      type: 'AccountCreated',
+      data: { owner: 'Ada' },
+      metadata: { version: 3, userId: 'u-1' },
+      version: 3,
+    });
+  });
+
+  it('should fall back to the legacy version for events without one', () => {
+    expect(decodeEvent(resolved({}))?.version).toBe(1);
+    expect(decodeEvent(resolved(undefined), { legacyEventVersion: 2 })).toEqual({
+      type: 'AccountCreated',
+      data: { owner: 'Ada' },
+      metadata: {},
+      version: 2,
+    });
+  });
+
+  it('should ignore invalid versions', () => {
+    expect(getEventVersion({ version: '2' })).toBe(1);
+    expect(getEventVersion({ version: 0 }, 4)).toBe(4);
+    expect(getEventVersion(new Uint8Array([1]))).toBe(1);
+  });
+
+  it('should decode the envelope of the stored event', () => {
+    expect(decodeEnvelope(resolved({ version: 2 }))).toEqual({
+      id: 'f3b1a7a2-0c4e-4a55-9d57-8a3c0b1e2d4f',
+      streamId: 'account-1',
+      revision: BigInt(0),
+      position: { commit: BigInt(42), prepare: BigInt(40) },
+      created,
+      schemaVersion: 2,
+    });
+  });
+
+  it('should return null for resolved events without an event', () => {
+    expect(decodeEvent({} as ResolvedEvent)).toBeNull();
+    expect(decodeEnvelope({} as ResolvedEvent)).toBeNull();
+  });
+});
+
+describe('with StreamHelper', () => {
+  let store: InMemoryEventStore;
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  it('should migrate stored events by the version recorded in their metadata', async () => {
+    const doubleIncrement: EventMigration<CounterIncremented> = {
+      eventType: 'CounterIncremented',
+      fromVersion: 1,
+      toVersion: 2,
+      migrate: (event: CounterIncremented): CounterIncremented => ({ ...event, data: { by: event.data.by * 2 } }),
+    };
+    const v1Helper = new StreamHelper<CounterState, CounterIncremented>(store, { currentEventVersion: 1 });
+    const v2Helper = new StreamHelper<CounterState, CounterIncremented>(store, {
+      currentEventVersion: 2,
+      eventMigrations: [doubleIncrement],
+    });
+
+    await v1Helper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 1 } });
+    await v2Helper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 10 } });
+
+    const { state } = await v2Helper.getCurrentState('counter-1', applyEvent);
+    expect(state).toEqual({ count: 12 });
+
+    // Legacy events without a version in their metadata use legacyEventVersion
+    await store.appendToStream('counter-2', increment(5));
+    const legacyV2Helper = new StreamHelper<CounterState, CounterIncremented>(store, {
+      legacyEventVersion: 2,
+      eventMigrations: [doubleIncrement],
+    });
+    expect((await legacyV2Helper.getCurrentState('counter-2', applyEvent)).state).toEqual({ count: 5 });
+    expect((await v2Helper.getCurrentState('counter-2', applyEvent)).state).toEqual({ count: 10 });
+  });
+
+  it('should pass event envelopes to reducers and readers', async () => {
+    const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, {});
+    const { eventIds } = await streamHelper.appendEvents('counter-1', [
+      { type: 'CounterIncremented', data: { by: 1 } },
+      { type: 'CounterIncremented', data: { by: 2 } },
+    ]);
+
+    const envelopes: EventEnvelope[] = [];
+    await streamHelper.getCurrentState('counter-1', (state, event, envelope) => {
+      envelopes.push(envelope);
+      return applyEvent(state, event);
+    });
+
+    expect(envelopes).toEqual([
+      expect.objectContaining({ id: eventIds[0], streamId: 'counter-1', revision: BigInt(0), schemaVersion: 1 }),
+      expect.objectContaining({ id: eventIds[1], streamId: 'counter-1', revision: BigInt(1), schemaVersion: 1 }),
+    ]);
+    expect(envelopes[0].created).toBeInstanceOf(Date);
+    expect(envelopes[1].position!.commit).toBeGreaterThan(envelopes[0].position!.commit);
+
+    const read: EnvelopedEvent<CounterIncremented>[] = [];
+    for await (const enveloped of streamHelper.readStreamWithEnvelopes('counter-1', { fromRevision: BigInt(1) })) {
+      read.push(enveloped);
+    }
+    expect(read).toEqual([{ event: expect.objectContaining({ data: { by: 2 } }), envelope: envelopes[1] }]);
+  });
+});
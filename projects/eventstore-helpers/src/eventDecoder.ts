@@ -0,0 +1,85 @@
+/**
+ * Decodes stored events into the BaseEvent shape used by the helpers.
+ *
+ * The schema version of an event is written to `metadata.version` on append; a ResolvedEvent
+ * never carries it at the top level. Events written before versions were recorded fall back to a
+ * configurable legacy version, so they still enter the migration chain at the right step.
+ */
+import type { ResolvedEvent } from '@eventstore/db-client';
+import { BaseEvent, EventEnvelope, EventMetadata, JSONType } from './types';
+import type { EventCodec } from './eventCodecs';
+import { CAUSATION_ID, CORRELATION_ID } from './metadataContext';
+
+export type EventDecoderOptions = {
+  // Version assumed for events without a version in their metadata, defaults to 1
+  legacyEventVersion?: number;
+  // Codec the event data is decoded with; without one the data is returned as read
+  codec?: EventCodec;
+};
+
+/**
+ * Reads the schema version from event metadata.
+ *
+ * @param metadata - The stored event metadata
+ * @param legacyEventVersion - Version returned when the metadata has no valid version
+ * @returns The schema version of the event
+ */
+export function getEventVersion(metadata: unknown, legacyEventVersion = 1): number {
+  const version = isRecord(metadata) ? metadata.version : undefined;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : legacyEventVersion;
+}
+
+/**
+ * Maps a resolved event to a BaseEvent with its type, data, metadata and schema version.
+ *
+ * @param resolvedEvent - The event as read from a stream, $all or a subscription
+ * @param options - Decoder options
+ * @returns The decoded event, or null when the resolved event has no event (e.g. a link to a deleted event)
+ */
+export function decodeEvent<E extends BaseEvent = BaseEvent>(
+  resolvedEvent: ResolvedEvent,
+  options: EventDecoderOptions = {}
+): E | null {
+  const recorded = resolvedEvent.event;
+  if (!recorded) {
+    return null;
+  }
+
+  const metadata = isRecord(recorded.metadata) ? recorded.metadata as EventMetadata : {};
+  return {
+    type: recorded.type,
+    data: options.codec ? options.codec.decode(recorded.data as JSONType | Uint8Array) : recorded.data as JSONType,
+    metadata,
+    version: getEventVersion(metadata, options.legacyEventVersion),
+  } as E;
+}
+
+/**
+ * Extracts the stored details of a resolved event.
+ *
+ * @param resolvedEvent - The event as read from a stream, $all or a subscription
+ * @param options - Decoder options
+ * @returns The envelope, or null when the resolved event has no event
+ */
+export function decodeEnvelope(resolvedEvent: ResolvedEvent, options: EventDecoderOptions = {}): EventEnvelope | null {
+  const recorded = resolvedEvent.event;
+  if (!recorded) {
+    return null;
+  }
+
+  const metadata = isRecord(recorded.metadata) ? recorded.metadata : {};
+  return {
+    id: recorded.id,
+    streamId: recorded.streamId,
+    revision: recorded.revision,
+    position: recorded.position,
+    created: recorded.created,
+    schemaVersion: getEventVersion(metadata, options.legacyEventVersion),
+    ...typeof metadata[CORRELATION_ID] === 'string' && { correlationId: metadata[CORRELATION_ID] },
+    ...typeof metadata[CAUSATION_ID] === 'string' && { causationId: metadata[CAUSATION_ID] },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Uint8Array) && !Array.isArray(value);
+}
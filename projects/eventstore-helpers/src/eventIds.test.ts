@@ -0,0 +1,26 @@
+import { deterministicEventId, uuidV5 } from './eventIds';
+
+describe('eventIds', () => {
+  describe('uuidV5', () => {
+    it('should match the RFC 4122 reference value', () => {
+      // DNS namespace, name "www.example.com"
+      expect(uuidV5('www.example.com', '6ba7b810-9dad-11d1-80b4-00c04fd430c8'))
+        .toBe('2ed6657d-e927-568b-95e1-2665a8aea6a2');
+    });
+
+    it('should reject invalid namespaces', () => {
+      expect(() => uuidV5('name', 'not-a-uuid')).toThrow('Invalid namespace UUID');
+    });
+  });
+
+  describe('deterministicEventId', () => {
+    it('should be stable per stream and key', () => {
+      const id = deterministicEventId('account-1', 'tx-1');
+
+      expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(deterministicEventId('account-1', 'tx-1')).toBe(id);
+      expect(deterministicEventId('account-2', 'tx-1')).not.toBe(id);
+      expect(deterministicEventId('account-1', 'tx-2')).not.toBe(id);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Deterministic event IDs for idempotent appends.
+ *
+ * EventStoreDB treats a write whose event IDs match events already at the expected position
+ * as a no-op, so a retried request that reuses its IDs does not write duplicates. IDs are
+ * UUIDv5 values derived from the stream name and an idempotency key.
+ */
+import { createHash } from 'crypto';
+
+// Namespace for event IDs derived by the helpers
+export const EVENT_ID_NAMESPACE = '5b0e3a4c-9f3e-4c2a-8d3b-6f1a2e7c9d40';
+
+/**
+ * Derives a UUIDv5 from a namespace and a name, as described in RFC 4122 section 4.3.
+ *
+ * @param name - The name to hash
+ * @param namespace - The namespace UUID
+ * @returns The UUID string
+ */
+export function uuidV5(name: string, namespace: string = EVENT_ID_NAMESPACE): string {
+  const namespaceBytes = Buffer.from(namespace.replace(/-/g, ''), 'hex');
+  if (namespaceBytes.length !== 16) {
+    throw new Error(`Invalid namespace UUID: ${namespace}`);
+  }
+
+  const hash = createHash('sha1').update(namespaceBytes).update(name, 'utf8').digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Derives the event ID for a key within a stream. The same stream and key always give the same ID,
+ * while the same key in another stream gives a different one.
+ *
+ * @param streamId - The stream the event is appended to
+ * @param key - The idempotency key, e.g. a command or transaction ID
+ * @returns The deterministic event ID
+ */
+export function deterministicEventId(streamId: string, key: string): string {
+  return uuidV5(`${streamId}/${key}`);
+}
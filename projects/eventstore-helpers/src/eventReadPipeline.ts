@@ -0,0 +1,142 @@
+/**
+ * EventReadPipeline turns events as read from EventStoreDB into the event types of the application.
+ *
+ * Every read path runs the same steps, in order:
+ * - decode the data with the event codec and the envelope with the schema version from metadata
+ * - decrypt personal data fields, redacting those of shredded subjects
+ * - migrate the event to the current version of its type, which may split or drop it
+ * - validate it according to the read validation policy
+ * - optionally downcast it to an older schema version
+ *
+ * StreamHelper, SubscriptionHelper and PersistentConsumer each hold a pipeline built from their
+ * config, so reads, subscriptions and consumers see the same events.
+ */
+import { ResolvedEvent } from '@eventstore/db-client';
+import { BaseEvent, EnvelopedEvent, EventEnvelope, ReadPipelineConfig } from './types';
+import { EventMigrationRegistry } from './migrationRegistry';
+import { decodeEnvelope, decodeEvent } from './eventDecoder';
+import { EventCodec, jsonCodec } from './eventCodecs';
+import { FieldEncryption } from './fieldEncryption';
+import { EventValidationError, EventValidators, ReadValidationPolicy, ValidationIssue } from './eventValidation';
+import { Logger, noopLogger } from './logger';
+
+export class EventReadPipeline<E extends BaseEvent> {
+  readonly migrations: EventMigrationRegistry<E>;
+  readonly codec: EventCodec;
+  readonly logger: Logger;
+  private legacyEventVersion: number;
+  private eventValidators: EventValidators;
+  private readValidation: ReadValidationPolicy;
+  private fieldEncryption?: FieldEncryption<E>;
+
+  /**
+   * @param config - The read settings of the helper holding the pipeline
+   * @throws MigrationError when `eventMigrations` contains an invalid chain
+   */
+  constructor(config: ReadPipelineConfig<E> = {}) {
+    this.migrations = config.eventMigrations instanceof EventMigrationRegistry
+      ? config.eventMigrations
+      : new EventMigrationRegistry<E>(config.eventMigrations);
+    this.codec = config.eventCodec ?? jsonCodec();
+    this.logger = config.logger ?? noopLogger;
+    this.legacyEventVersion = config.legacyEventVersion ?? 1;
+    this.eventValidators = config.eventValidators ?? {};
+    this.readValidation = config.readValidation ?? 'off';
+    this.fieldEncryption = config.fieldEncryption;
+  }
+
+  /**
+   * Runs a resolved event through the whole pipeline: decode, decrypt, migrate, validate and,
+   * given a schema version, downcast.
+   *
+   * @param resolvedEvent - The event as read from a stream, $all or a subscription
+   * @param schemaVersion - Schema version to downcast the events to
+   * @returns Promise resolving to the events with the envelope of the stored event; empty when
+   * there is no event or its migration dropped it
+   */
+  async resolve(resolvedEvent: ResolvedEvent, schemaVersion?: number): Promise<EnvelopedEvent<E>[]> {
+    const decoded = this.decode(resolvedEvent);
+    if (!decoded) return [];
+
+    const resolved: EnvelopedEvent<E>[] = [];
+    for (const migratedEvent of await this.migrate(await this.decrypt(decoded.event))) {
+      await this.validateRead(decoded.envelope.streamId, migratedEvent, decoded.envelope);
+      const event = schemaVersion === undefined
+        ? migratedEvent
+        : await this.migrations.downcast(migratedEvent, schemaVersion);
+      resolved.push({ event, envelope: decoded.envelope });
+    }
+    return resolved;
+  }
+
+  /**
+   * Decodes a resolved event into the event type handled by the pipeline and its envelope,
+   * reading the schema version from metadata.
+   *
+   * @param resolvedEvent - The event as read
+   * @returns The decoded event and envelope, or null when the resolved event holds no event
+   */
+  decode(resolvedEvent: ResolvedEvent): EnvelopedEvent<E> | null {
+    const options = { legacyEventVersion: this.legacyEventVersion, codec: this.codec };
+    const event = decodeEvent<E>(resolvedEvent, options);
+    const envelope = decodeEnvelope(resolvedEvent, options);
+    return event && envelope ? { event, envelope } : null;
+  }
+
+  /**
+   * Decrypts the encrypted fields of a stored event, when field encryption is configured.
+   *
+   * @param event - The decoded event
+   * @param subjects - Collects the subjects whose fields were decrypted
+   */
+  async decrypt(event: E, subjects?: Set<string>): Promise<E> {
+    return this.fieldEncryption ? this.fieldEncryption.decrypt(event, subjects) : event;
+  }
+
+  /**
+   * Migrates an event to the target version of its type if necessary.
+   *
+   * @param event - The event to migrate
+   * @returns Promise resolving to the migrated events; a migration may split or drop an event
+   * @throws MigrationError when the event's version has no migration to the target version
+   */
+  async migrate(event: E): Promise<E[]> {
+    if (!event || !event.type) {
+      return [event];
+    }
+
+    return this.migrations.migrate(event);
+  }
+
+  /**
+   * Runs the validator configured for the event's type.
+   *
+   * @param event - The event to validate
+   * @returns Promise resolving to the issues found, empty for a valid event
+   */
+  async validate(event: E): Promise<ValidationIssue[]> {
+    const validator = this.eventValidators[event.type];
+    return validator ? validator.validate(event) : [];
+  }
+
+  /**
+   * Applies the read validation policy to an event read back from a stream.
+   *
+   * @throws EventValidationError when the event is invalid and the policy is `strict`
+   */
+  async validateRead(streamId: string, event: E, envelope: EventEnvelope): Promise<void> {
+    if (this.readValidation === 'off') return;
+
+    const issues = await this.validate(event);
+    if (issues.length === 0) return;
+    if (this.readValidation === 'strict') {
+      throw new EventValidationError(event.type, issues, streamId);
+    }
+    this.logger.warn('Read invalid event', {
+      streamId,
+      revision: envelope.revision,
+      eventType: event.type,
+      issues,
+    });
+  }
+}
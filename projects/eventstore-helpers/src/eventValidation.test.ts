@@ -0,0 +1,148 @@
+import { ResolvedEvent, StreamNotFoundError, jsonEvent } from '@eventstore/db-client';
+import { EventValidationError, jsonSchemaValidator } from './eventValidation';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent } from './types';
+
+const deposit = (data: Record<string, unknown>): BaseEvent => ({ type: 'MoneyDeposited', data });
+
+interface CounterState {
+  count: number;
+  [key: string]: unknown;
+}
+
+interface CounterIncremented extends BaseEvent<'CounterIncremented', {
+  by: number;
+}> { }
+
+const applyEvent = (state: CounterState | null, event: CounterIncremented): CounterState => ({
+  count: (state?.count ?? 0) + event.data.by,
+});
+
+const increment = (by: number) => jsonEvent({ type: 'CounterIncremented', data: { by } });
+
+const collect = async (read: AsyncIterable<ResolvedEvent>) => {
+  const events: ResolvedEvent[] = [];
+  for await (const resolvedEvent of read) {
+    events.push(resolvedEvent);
+  }
+  return events;
+};
+
+describe('eventValidation', () => {
+  describe('jsonSchemaValidator', () => {
+    const validator = jsonSchemaValidator({
+      type: 'object',
+      required: ['amount', 'currency'],
+      additionalProperties: false,
+      properties: {
+        amount: { type: 'number', minimum: 0.01 },
+        currency: { type: 'string', enum: ['EUR', 'USD'] },
+        description: { type: 'string', maxLength: 10 },
+        reference: { type: ['string', 'null'], pattern: '^REF-' },
+        tags: { type: 'array', items: { type: 'string', minLength: 1 } },
+        count: { type: 'integer', maximum: 3 },
+      },
+    });
+
+    it('should accept valid data', async () => {
+      expect(await validator.validate(deposit({
+        amount: 10,
+        currency: 'EUR',
+        reference: null,
+        tags: ['salary'],
+        count: 2,
+      }))).toEqual([]);
+    });
+
+    it('should report every issue with its path', async () => {
+      expect(await validator.validate(deposit({
+        amount: 'abc',
+        description: 'A very long description',
+        reference: 'X-1',
+        tags: ['ok', ''],
+        count: 1.5,
+        extra: true,
+      }))).toEqual([
+        { path: 'data.currency', message: 'is required' },
+        { path: 'data.amount', message: 'must be of type number' },
+        { path: 'data.description', message: 'must have at most 10 characters' },
+        { path: 'data.reference', message: 'must match ^REF-' },
+        { path: 'data.tags[1]', message: 'must have at least 1 characters' },
+        { path: 'data.count', message: 'must be of type integer' },
+        { path: 'data.extra', message: 'is not allowed' },
+      ]);
+    });
+
+    it('should check numeric ranges and enums', async () => {
+      expect(await validator.validate(deposit({ amount: 0, currency: 'GBP', count: 4 }))).toEqual([
+        { path: 'data.amount', message: 'must be >= 0.01' },
+        { path: 'data.currency', message: 'must be one of "EUR", "USD"' },
+        { path: 'data.count', message: 'must be <= 3' },
+      ]);
+    });
+  });
+
+  describe('EventValidationError', () => {
+    it('should carry the event type, stream and issues', () => {
+      const issues = [{ path: 'data.amount', message: 'must be of type number' }];
+      const error = new EventValidationError('MoneyDeposited', issues, 'account-1');
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('EventValidationError');
+      expect(error.message).toBe('Invalid MoneyDeposited event: data.amount must be of type number');
+      expect(error).toMatchObject({ eventType: 'MoneyDeposited', streamId: 'account-1', issues });
+    });
+  });
+});
+
+describe('with StreamHelper', () => {
+  let store: InMemoryEventStore;
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  it('should validate events before appending and optionally on read', async () => {
+    const eventValidators = {
+      CounterIncremented: jsonSchemaValidator({
+        type: 'object',
+        required: ['by'],
+        properties: { by: { type: 'integer', minimum: 1 } },
+      }),
+    };
+    const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, { eventValidators });
+
+    await expect(streamHelper.appendEvents('counter-1', [
+      { type: 'CounterIncremented', data: { by: 1 } },
+      { type: 'CounterIncremented', data: { by: 'abc' as unknown as number } },
+    ])).rejects.toMatchObject({
+      name: 'EventValidationError',
+      streamId: 'counter-1',
+      issues: [{ path: 'data.by', message: 'must be of type integer' }],
+    });
+    await expect(collect(store.readStream('counter-1'))).rejects.toBeInstanceOf(StreamNotFoundError);
+    await expect(streamHelper.appendMultiStreamEvents('tx-1', [
+      { streamId: 'counter-1', event: { type: 'CounterIncremented', data: { by: 1 } } },
+      { streamId: 'counter-2', event: { type: 'CounterIncremented', data: { by: 0 } } },
+    ])).rejects.toMatchObject({ name: 'EventValidationError', streamId: 'counter-2' });
+    await expect(collect(store.readStream('$tx-tx-1'))).rejects.toBeInstanceOf(StreamNotFoundError);
+
+    // Written before validation was configured
+    await store.appendToStream('counter-1', increment(0));
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const warning = new StreamHelper<CounterState, CounterIncremented>(store, {
+      eventValidators,
+      readValidation: 'warn',
+      logger,
+    });
+    const strict = new StreamHelper<CounterState, CounterIncremented>(store, { eventValidators, readValidation: 'strict' });
+
+    expect((await warning.getCurrentState('counter-1', applyEvent)).state).toEqual({ count: 0 });
+    expect(logger.warn).toHaveBeenCalledWith('Read invalid event', expect.objectContaining({
+      streamId: 'counter-1',
+      eventType: 'CounterIncremented',
+    }));
+    await expect(strict.getCurrentState('counter-1', applyEvent)).rejects.toBeInstanceOf(EventValidationError);
+  });
+});
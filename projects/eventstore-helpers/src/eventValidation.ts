@@ -0,0 +1,154 @@
+/**
+ * Runtime validation of event data.
+ *
+ * StreamHelper looks up a validator per event type in `StreamConfig.eventValidators` and runs it
+ * before every append, and optionally on read. Any object with a `validate` method can be used;
+ * `jsonSchemaValidator` covers the common cases with a subset of JSON Schema:
+ *
+ * - `type` (one or several of object, array, string, number, integer, boolean, null)
+ * - `properties`, `required` and `additionalProperties: false` for objects
+ * - `items` for arrays
+ * - `enum`, `minimum`, `maximum`, `minLength`, `maxLength` and `pattern`
+ */
+import { BaseEvent } from './types';
+
+export type ValidationIssue = {
+  // Path of the invalid value, e.g. `data.amount`
+  path: string;
+  message: string;
+};
+
+export interface EventValidator {
+  // Returns the problems found in the event, empty when it is valid
+  validate(event: BaseEvent): ValidationIssue[] | Promise<ValidationIssue[]>;
+}
+
+// Event type → validator; event types without an entry are not validated
+export type EventValidators = Record<string, EventValidator>;
+
+// off: no validation on read; warn: log invalid events and use them; strict: throw EventValidationError
+export type ReadValidationPolicy = 'off' | 'warn' | 'strict';
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+};
+
+// Thrown when an event fails validation on append, or on read with the strict policy
+export class EventValidationError extends Error {
+  readonly eventType: string;
+  readonly issues: ValidationIssue[];
+  readonly streamId?: string;
+
+  constructor(eventType: string, issues: ValidationIssue[], streamId?: string) {
+    super(`Invalid ${eventType} event: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'EventValidationError';
+    this.eventType = eventType;
+    this.issues = issues;
+    this.streamId = streamId;
+  }
+}
+
+/**
+ * Creates a validator checking `event.data` against a JSON Schema subset.
+ *
+ * @param schema - The schema of the event data
+ * @returns A validator for use in `eventValidators`
+ */
+export function jsonSchemaValidator(schema: JsonSchema): EventValidator {
+  return {
+    validate: event => validateValue(event.data, schema, 'data'),
+  };
+}
+
+function validateValue(value: unknown, schema: JsonSchema, path: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [{ path, message: `must be of type ${types.join(' or ')}` }];
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some(allowed => allowed === value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must have at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must have at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => issues.push(...validateValue(item, schema.items!, `${path}[${index}]`)));
+  }
+
+  if (isObject(value)) {
+    for (const property of schema.required ?? []) {
+      if (value[property] === undefined) {
+        issues.push({ path: `${path}.${property}`, message: 'is required' });
+      }
+    }
+    for (const [property, propertyValue] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[property];
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          issues.push(...validateValue(propertyValue, propertySchema, `${path}.${property}`));
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${property}`, message: 'is not allowed' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
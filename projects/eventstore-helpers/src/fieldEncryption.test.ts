@@ -0,0 +1,165 @@
+import { ResolvedEvent } from '@eventstore/db-client';
+import { FieldEncryption, FieldEncryptionError, REDACTED } from './fieldEncryption';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { InMemoryKeyStore } from './keyStores';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent } from './types';
+
+type AccountCreated = BaseEvent<'AccountCreated', {
+  id: string;
+  owner: string;
+  address?: { street: string; city: string };
+  openedAt?: Date;
+}>;
+
+const created: AccountCreated = {
+  type: 'AccountCreated',
+  data: {
+    id: 'account-1',
+    owner: 'Jane Doe',
+    address: { street: '1 Main St', city: 'Springfield' },
+    openedAt: new Date('2025-01-20T15:49:09.000Z'),
+  },
+};
+
+const collect = async (read: AsyncIterable<ResolvedEvent>) => {
+  const events: ResolvedEvent[] = [];
+  for await (const resolvedEvent of read) {
+    events.push(resolvedEvent);
+  }
+  return events;
+};
+
+describe('FieldEncryption', () => {
+  let keyStore: InMemoryKeyStore;
+  let encryption: FieldEncryption<AccountCreated>;
+
+  beforeEach(() => {
+    keyStore = new InMemoryKeyStore();
+    encryption = new FieldEncryption<AccountCreated>(keyStore, {
+      AccountCreated: { subject: 'id', fields: ['owner', 'address.street', 'openedAt'] },
+    });
+  });
+
+  it('should encrypt the configured fields and decrypt them again', async () => {
+    const encrypted = await encryption.encrypt(created);
+
+    expect(encrypted.data.id).toBe('account-1');
+    expect(encrypted.data.address?.city).toBe('Springfield');
+    expect(encrypted.data.owner).toEqual({ $encrypted: expect.objectContaining({ subject: 'account-1' }) });
+    expect(JSON.stringify(encrypted)).not.toContain('Jane Doe');
+    expect(JSON.stringify(encrypted)).not.toContain('Main St');
+    expect(created.data.owner).toBe('Jane Doe');
+
+    expect(await encryption.decrypt(JSON.parse(JSON.stringify(encrypted)))).toEqual(created);
+  });
+
+  it('should leave other event types alone', async () => {
+    const event = { type: 'AccountClosed', data: { id: 'account-1' } } as unknown as AccountCreated;
+
+    expect(await encryption.encrypt(event)).toBe(event);
+  });
+
+  it('should redact fields once the subject is shredded', async () => {
+    const encrypted = await encryption.encrypt(created);
+
+    await encryption.shred('account-1');
+    const redacted = await encryption.decrypt(encrypted);
+
+    expect(redacted.data).toEqual({
+      id: 'account-1',
+      owner: REDACTED,
+      address: { street: REDACTED, city: 'Springfield' },
+      openedAt: REDACTED,
+    });
+    expect(redacted.metadata?.redactedFields).toEqual(['owner', 'address.street', 'openedAt']);
+
+    // A new key for the same subject does not bring the old data back
+    await encryption.encrypt(created);
+    expect((await encryption.decrypt(encrypted)).data.owner).toBe(REDACTED);
+  });
+
+  it('should encrypt snapshot state for all its subjects', async () => {
+    const state = { owners: ['Jane Doe', 'John Doe'] };
+    const subjects = new Set<string>();
+    await encryption.encrypt(created);
+    await encryption.encrypt({ ...created, data: { ...created.data, id: 'account-2' } });
+
+    const encrypted = await encryption.encryptSnapshot(state, ['account-1', 'account-2']);
+    expect(JSON.stringify(encrypted)).not.toContain('Doe');
+    expect(await encryption.decryptSnapshot(JSON.parse(JSON.stringify(encrypted)), subjects)).toEqual(state);
+    expect(subjects).toEqual(new Set(['account-1', 'account-2']));
+    expect(await encryption.encryptSnapshot(state, [])).toBe(state);
+
+    await encryption.shred('account-2');
+    expect(await encryption.decryptSnapshot(encrypted)).toBeUndefined();
+    await expect(encryption.encryptSnapshot(state, ['account-1', 'account-2']))
+      .rejects.toThrow('Subject account-2 was shredded while its data was snapshotted');
+  });
+
+  it('should use the configured redacted value', async () => {
+    const custom = new FieldEncryption<AccountCreated>(keyStore, {
+      AccountCreated: { subject: event => event.data.id, fields: ['owner'] },
+    }, { redactedValue: null });
+
+    const encrypted = await custom.encrypt(created);
+    await keyStore.delete('account-1');
+
+    expect((await custom.decrypt(encrypted)).data.owner).toBeNull();
+  });
+
+  it('should reject events without a subject and subject fields that are encrypted', async () => {
+    await expect(encryption.encrypt({ ...created, data: { ...created.data, id: '' } }))
+      .rejects.toBeInstanceOf(FieldEncryptionError);
+    expect(() => new FieldEncryption(keyStore, { AccountCreated: { subject: 'id', fields: ['id'] } }))
+      .toThrow('AccountCreated encrypts its subject field id');
+  });
+});
+
+describe('with StreamHelper', () => {
+  let store: InMemoryEventStore;
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  it('should encrypt personal data on append and redact it once shredded', async () => {
+    type OwnerNamed = BaseEvent<'OwnerNamed', { accountId: string; owner: string }>;
+    const encryption = new FieldEncryption<OwnerNamed>(new InMemoryKeyStore(), {
+      OwnerNamed: { subject: 'accountId', fields: ['owner'] },
+    });
+    const streamHelper = new StreamHelper<{ owner: string }, OwnerNamed>(store, { fieldEncryption: encryption });
+    const applyOwner = (_state: { owner: string } | null, event: OwnerNamed) => ({ owner: event.data.owner });
+
+    await streamHelper.appendEvent('account-1', { type: 'OwnerNamed', data: { accountId: 'account-1', owner: 'Jane Doe' } });
+
+    const [stored] = await collect(store.readStream('account-1'));
+    expect(JSON.stringify(stored.event?.data)).not.toContain('Jane Doe');
+    expect((await streamHelper.getCurrentState('account-1', applyOwner)).state).toEqual({ owner: 'Jane Doe' });
+
+    await encryption.shred('account-1');
+    expect((await streamHelper.getCurrentState('account-1', applyOwner)).state).toEqual({ owner: REDACTED });
+  });
+
+  it('should erase personal data from snapshots when its subject is shredded', async () => {
+    type OwnerNamed = BaseEvent<'OwnerNamed', { accountId: string; owner: string }>;
+    const encryption = new FieldEncryption<OwnerNamed>(new InMemoryKeyStore(), {
+      OwnerNamed: { subject: 'accountId', fields: ['owner'] },
+    });
+    const streamHelper = new StreamHelper<{ owner: string }, OwnerNamed>(store, { fieldEncryption: encryption, snapshotFrequency: 1 });
+    const applyOwner = (_state: { owner: string } | null, event: OwnerNamed) => ({ owner: event.data.owner });
+    await streamHelper.appendEvent('account-1', { type: 'OwnerNamed', data: { accountId: 'a1', owner: 'Jane Doe' } });
+
+    await streamHelper.getCurrentState('account-1', applyOwner);
+    await streamHelper.flushSnapshots();
+    const [snapshot] = await collect(store.readStream('account-1-snapshot'));
+    expect(JSON.stringify(snapshot.event?.data)).not.toContain('Jane Doe');
+    expect(await streamHelper.getCurrentState('account-1', applyOwner)).toEqual({ state: { owner: 'Jane Doe' }, version: 1 });
+
+    await encryption.shred('a1');
+    expect(await streamHelper.getLatestSnapshot('account-1')).toBeNull();
+    expect(await streamHelper.getCurrentState('account-1', applyOwner)).toEqual({ state: { owner: REDACTED }, version: 1 });
+    await streamHelper.flushSnapshots();
+    expect((await streamHelper.getLatestSnapshot('account-1'))?.state).toEqual({ owner: REDACTED });
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Field-level encryption of personal data in events, with crypto-shredding.
+ *
+ * FieldEncryption encrypts the configured data fields of an event type with the key of the
+ * subject the event is about (AES-256-GCM), before the event is appended. Each encrypted field is
+ * stored as `{ "$encrypted": { subject, iv, tag, data } }`, so reads decrypt it wherever it
+ * appears, whatever the configuration was when it was written.
+ *
+ * Deleting a subject's key from the KeyStore (`shred`) makes its fields unreadable for good. Such
+ * fields are read as `redactedValue` (default `REDACTED`) and listed in the event's
+ * `metadata.redactedFields`, so reducers get a well-defined value instead of ciphertext.
+ *
+ * Snapshot state built from decrypted fields is encrypted as a whole with a random key, split
+ * into one share per subject (XOR) and each share encrypted with its subject's key. Shredding any
+ * of the subjects makes the snapshot unreadable, and the state is rebuilt from the events.
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { BaseEvent, JSONType, KeyStore } from './types';
+import { EventCodec, jsonCodec } from './eventCodecs';
+
+// Value of fields whose subject key has been deleted
+export const REDACTED = '[redacted]';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+// Dotted paths to the fields of event data, e.g. `owner` or `address.street`
+export type DataFieldPath<D> = D extends Record<string, unknown>
+  ? string extends keyof D
+    ? string
+    : { [K in keyof D & string]: K | `${K}.${DataFieldPath<NonNullable<D[K]>>}` }[keyof D & string]
+  : never;
+
+export type EncryptedFields<E extends BaseEvent = BaseEvent> = {
+  // Data field holding the subject ID, or a function returning it; the field itself stays readable
+  subject: DataFieldPath<E['data']> | ((event: E) => string);
+  // Data fields to encrypt; nested fields as dotted paths, e.g. `address.street`
+  fields: DataFieldPath<E['data']>[];
+};
+
+// The encrypted fields of each event type of the union E
+export type EncryptedEventFields<E extends BaseEvent = BaseEvent> = {
+  [T in E['type']]?: EncryptedFields<Extract<E, { type: T }>>;
+};
+
+export type FieldEncryptionOptions = {
+  // Value read for fields whose key has been deleted, defaults to REDACTED
+  redactedValue?: unknown;
+  // Serialization of field values before encryption, defaults to jsonCodec()
+  codec?: EventCodec;
+};
+
+type EncryptedValue = {
+  $encrypted: {
+    subject: string;
+    iv: string;
+    tag: string;
+    data: string;
+  };
+};
+
+type EncryptedSnapshotState = {
+  $encryptedState: {
+    // The state key split into shares, each encrypted with a subject's key
+    shares: EncryptedValue[];
+    state: EncryptedValue;
+  };
+};
+
+// Label the state of a snapshot is encrypted under, in place of a subject
+const SNAPSHOT_STATE = '$snapshot';
+
+// Thrown when an event cannot be encrypted, or the encrypted fields are misconfigured
+export class FieldEncryptionError extends Error {
+  readonly eventType: string;
+
+  constructor(message: string, eventType: string) {
+    super(message);
+    this.name = 'FieldEncryptionError';
+    this.eventType = eventType;
+  }
+}
+
+export class FieldEncryption<E extends BaseEvent = BaseEvent> {
+  private keyStore: KeyStore;
+  private events: Record<string, EncryptedFields<any>>;
+  private redactedValue: unknown;
+  private codec: EventCodec;
+
+  /**
+   * @param keyStore - Where the per-subject keys are kept
+   * @param events - The encrypted fields per event type; other event types are written as is
+   * @param options - Redacted placeholder and value codec
+   * @throws FieldEncryptionError when an event type encrypts its own subject field
+   */
+  constructor(keyStore: KeyStore, events: EncryptedEventFields<E>, options: FieldEncryptionOptions = {}) {
+    this.events = events as Record<string, EncryptedFields<any>>;
+    for (const [eventType, { subject, fields }] of Object.entries(this.events)) {
+      if (typeof subject === 'string' && fields.includes(subject)) {
+        throw new FieldEncryptionError(`${eventType} encrypts its subject field ${subject}`, eventType);
+      }
+    }
+    this.keyStore = keyStore;
+    this.redactedValue = 'redactedValue' in options ? options.redactedValue : REDACTED;
+    this.codec = options.codec ?? jsonCodec();
+  }
+
+  /**
+   * Encrypts the configured fields of an event with its subject's key, creating the key if needed.
+   *
+   * @param event - The event to encrypt
+   * @returns Promise resolving to a copy of the event with encrypted fields
+   * @throws FieldEncryptionError when the event has no subject ID
+   */
+  async encrypt(event: E): Promise<E> {
+    const config = this.events[event.type];
+    if (!config) {
+      return event;
+    }
+
+    const subject = typeof config.subject === 'function' ? config.subject(event) : getPath(event.data, config.subject);
+    if (typeof subject !== 'string' || subject.length === 0) {
+      throw new FieldEncryptionError(`${event.type} event has no subject ID to encrypt its fields with`, event.type);
+    }
+
+    const key = await this.keyStore.getOrCreate(subject);
+    let data = event.data;
+    for (const field of config.fields) {
+      const value = getPath(data, field);
+      if (value !== undefined && !isEncryptedValue(value)) {
+        data = setPath(data, field, this.encryptValue(value, subject, key));
+      }
+    }
+    return { ...event, data };
+  }
+
+  /**
+   * Decrypts every encrypted field of an event. Fields whose key has been deleted are replaced by
+   * the redacted value and listed in `metadata.redactedFields`.
+   *
+   * @param event - The event as read
+   * @param subjects - Collects the subjects whose fields were decrypted
+   * @returns Promise resolving to a copy of the event with readable fields
+   */
+  async decrypt(event: E, subjects?: Set<string>): Promise<E> {
+    const keys = new Map<string, Uint8Array | null>();
+    const redactedFields: string[] = [];
+
+    const visit = async (value: unknown, path: string): Promise<unknown> => {
+      if (isEncryptedValue(value)) {
+        const { subject } = value.$encrypted;
+        if (!keys.has(subject)) {
+          keys.set(subject, await this.keyStore.get(subject));
+        }
+        const decrypted = this.decryptValue(value, keys.get(subject)!);
+        if (decrypted === undefined) {
+          redactedFields.push(path);
+          return this.redactedValue;
+        }
+        subjects?.add(subject);
+        return decrypted;
+      }
+      if (Array.isArray(value)) {
+        return Promise.all(value.map((entry, index) => visit(entry, `${path}[${index}]`)));
+      }
+      if (isPlainObject(value)) {
+        const entries = await Promise.all(Object.entries(value).map(async ([key, entry]) =>
+          [key, await visit(entry, path ? `${path}.${key}` : key)] as const
+        ));
+        return Object.fromEntries(entries);
+      }
+      return value;
+    };
+
+    const data = await visit(event.data, '') as JSONType;
+    if (redactedFields.length === 0) {
+      return { ...event, data };
+    }
+    return { ...event, data, metadata: { ...event.metadata, redactedFields } };
+  }
+
+  /**
+   * Encrypts snapshot state holding decrypted fields, so that it can only be read while every one
+   * of their subjects still has its key.
+   *
+   * @param state - The encoded state
+   * @param subjects - The subjects whose decrypted fields the state was built from
+   * @returns Promise resolving to the encrypted state, or the state as is when there are no subjects
+   * @throws FieldEncryptionError when a subject has been shredded since its fields were decrypted
+   */
+  async encryptSnapshot(state: JSONType, subjects: Iterable<string>): Promise<JSONType> {
+    const subjectIds = [...subjects];
+    if (subjectIds.length === 0) {
+      return state;
+    }
+
+    const keys = await Promise.all(subjectIds.map(async subject => {
+      const key = await this.keyStore.get(subject);
+      if (!key) {
+        throw new FieldEncryptionError(`Subject ${subject} was shredded while its data was snapshotted`, 'snapshot');
+      }
+      return key;
+    }));
+
+    const stateKey = randomBytes(KEY_LENGTH);
+    const shares = subjectIds.slice(1).map(() => randomBytes(KEY_LENGTH));
+    const firstShare = Buffer.from(stateKey);
+    shares.forEach(share => xorInto(firstShare, share));
+    shares.unshift(firstShare);
+
+    const encrypted: EncryptedSnapshotState = {
+      $encryptedState: {
+        shares: shares.map((share, index) => this.encryptValue(share.toString('base64'), subjectIds[index], keys[index])),
+        // Encrypted as a JSON string, so the value codec leaves the encoded state as it is
+        state: this.encryptValue(JSON.stringify(state), SNAPSHOT_STATE, stateKey),
+      },
+    };
+    return encrypted;
+  }
+
+  /**
+   * Decrypts snapshot state written by encryptSnapshot; other state is returned as is.
+   *
+   * @param state - The state as stored
+   * @param subjects - Collects the subjects the state was encrypted for
+   * @returns Promise resolving to the state, or undefined when one of its subjects was shredded
+   */
+  async decryptSnapshot(state: JSONType, subjects?: Set<string>): Promise<JSONType | undefined> {
+    if (!isEncryptedSnapshotState(state)) {
+      return state;
+    }
+
+    const stateKey = Buffer.alloc(KEY_LENGTH);
+    for (const share of state.$encryptedState.shares) {
+      const decrypted = this.decryptValue(share, await this.keyStore.get(share.$encrypted.subject));
+      if (typeof decrypted !== 'string') {
+        return undefined;
+      }
+      xorInto(stateKey, Buffer.from(decrypted, 'base64'));
+    }
+    for (const share of state.$encryptedState.shares) {
+      subjects?.add(share.$encrypted.subject);
+    }
+    const decrypted = this.decryptValue(state.$encryptedState.state, stateKey);
+    return typeof decrypted === 'string' ? JSON.parse(decrypted) : undefined;
+  }
+
+  /**
+   * Deletes a subject's key, making every field encrypted with it unreadable.
+   *
+   * @param subjectId - The subject to forget
+   */
+  async shred(subjectId: string): Promise<void> {
+    await this.keyStore.delete(subjectId);
+  }
+
+  private encryptValue(value: unknown, subject: string, key: Uint8Array): EncryptedValue {
+    const encoded = this.codec.encode({ value });
+    const plaintext = encoded instanceof Uint8Array ? encoded : Buffer.from(JSON.stringify(encoded), 'utf8');
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(subject, 'utf8'));
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return {
+      $encrypted: {
+        subject,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      },
+    };
+  }
+
+  /**
+   * Returns the decrypted value, or undefined when the key is missing or is not the one the value
+   * was encrypted with (the subject was shredded and has a new key since).
+   */
+  private decryptValue({ $encrypted }: EncryptedValue, key: Uint8Array | null): unknown {
+    if (!key) {
+      return undefined;
+    }
+    try {
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from($encrypted.iv, 'base64'));
+      decipher.setAAD(Buffer.from($encrypted.subject, 'utf8'));
+      decipher.setAuthTag(Buffer.from($encrypted.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from($encrypted.data, 'base64')), decipher.final()]);
+      return this.codec.decode(new Uint8Array(plaintext)).value;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return isPlainObject(value) && isPlainObject(value.$encrypted) && typeof value.$encrypted.subject === 'string';
+}
+
+function isEncryptedSnapshotState(value: unknown): value is EncryptedSnapshotState {
+  return isPlainObject(value) && isPlainObject(value.$encryptedState) && Array.isArray(value.$encryptedState.shares);
+}
+
+// XORs a share into the bytes of a key, in place
+function xorInto(target: Buffer, share: Buffer): void {
+  for (let i = 0; i < target.length; i++) {
+    target[i] ^= share[i];
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function getPath(data: JSONType, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => isPlainObject(value) ? value[key] : undefined, data);
+}
+
+// Sets a nested field, copying the objects along the path instead of mutating them
+function setPath(data: JSONType, path: string, value: unknown): JSONType {
+  const [key, ...rest] = path.split('.');
+  if (rest.length === 0) {
+    return { ...data, [key]: value };
+  }
+  const child = isPlainObject(data[key]) ? data[key] : {};
+  return { ...data, [key]: setPath(child, rest.join('.'), value) };
+}
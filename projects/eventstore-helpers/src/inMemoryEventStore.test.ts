@@ -0,0 +1,320 @@
+import {
+  BACKWARDS,
+  END,
+  NO_STREAM,
+  PersistentSubscriptionExistsError,
+  RETRY,
+  ResolvedEvent,
+  START,
+  STREAM_EXISTS,
+  StreamNotFoundError,
+  WrongExpectedVersionError,
+  jsonEvent,
+  persistentSubscriptionToStreamSettingsFromDefaults,
+  streamNameFilter,
+} from '@eventstore/db-client';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent } from './types';
+
+interface CounterState {
+  count: number;
+  [key: string]: unknown;
+}
+
+interface CounterIncremented extends BaseEvent<'CounterIncremented', {
+  by: number;
+}> { }
+
+const applyEvent = (state: CounterState | null, event: CounterIncremented): CounterState => ({
+  count: (state?.count ?? 0) + event.data.by,
+});
+
+const increment = (by: number) => jsonEvent({ type: 'CounterIncremented', data: { by } });
+
+const collect = async (read: AsyncIterable<ResolvedEvent>) => {
+  const events: ResolvedEvent[] = [];
+  for await (const resolvedEvent of read) {
+    events.push(resolvedEvent);
+  }
+  return events;
+};
+
+describe('InMemoryEventStore', () => {
+  let store: InMemoryEventStore;
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  describe('appendToStream', () => {
+    it('should assign stream revisions and global positions', async () => {
+      const first = await store.appendToStream('counter-1', [increment(1), increment(2)]);
+      const second = await store.appendToStream('counter-2', increment(3));
+
+      expect(first.nextExpectedRevision).toBe(BigInt(1));
+      expect(second.nextExpectedRevision).toBe(BigInt(0));
+      expect(second.position?.commit).toBeGreaterThan(first.position!.commit);
+    });
+
+    it('should enforce expected revisions', async () => {
+      await store.appendToStream('counter-1', increment(1), { expectedRevision: NO_STREAM });
+
+      await expect(store.appendToStream('counter-1', increment(1), { expectedRevision: NO_STREAM }))
+        .rejects.toBeInstanceOf(WrongExpectedVersionError);
+      await expect(store.appendToStream('counter-1', increment(1), { expectedRevision: BigInt(5) }))
+        .rejects.toBeInstanceOf(WrongExpectedVersionError);
+      await expect(store.appendToStream('counter-2', increment(1), { expectedRevision: STREAM_EXISTS }))
+        .rejects.toBeInstanceOf(WrongExpectedVersionError);
+
+      const result = await store.appendToStream('counter-1', increment(1), { expectedRevision: BigInt(0) });
+      expect(result.nextExpectedRevision).toBe(BigInt(1));
+    });
+
+    it('should treat a repeated write of the same event IDs as a no-op', async () => {
+      const events = [increment(1), increment(2)];
+      const first = await store.appendToStream('counter-1', events, { expectedRevision: NO_STREAM });
+      await store.appendToStream('counter-1', increment(3));
+
+      const retried = await store.appendToStream('counter-1', events, { expectedRevision: NO_STREAM });
+      const retriedAny = await store.appendToStream('counter-1', events[1]);
+
+      expect(retried).toEqual(first);
+      expect(retriedAny.nextExpectedRevision).toBe(BigInt(1));
+      expect(await collect(store.readStream('counter-1'))).toHaveLength(3);
+      await expect(store.appendToStream('counter-1', events, { expectedRevision: BigInt(1) }))
+        .rejects.toBeInstanceOf(WrongExpectedVersionError);
+    });
+  });
+
+  describe('readStream', () => {
+    it('should throw StreamNotFoundError for missing streams', async () => {
+      await expect(collect(store.readStream('missing'))).rejects.toBeInstanceOf(StreamNotFoundError);
+    });
+
+    it('should read forwards and backwards with maxCount', async () => {
+      await store.appendToStream('counter-1', [increment(1), increment(2), increment(3)]);
+
+      const forwards = await collect(store.readStream('counter-1', { fromRevision: BigInt(1) }));
+      expect(forwards.map(e => e.event?.data)).toEqual([{ by: 2 }, { by: 3 }]);
+
+      const backwards = await collect(store.readStream('counter-1', {
+        direction: BACKWARDS,
+        fromRevision: END,
+        maxCount: 1,
+      }));
+      expect(backwards).toHaveLength(1);
+      expect(backwards[0].event?.revision).toBe(BigInt(2));
+    });
+
+    it('should not share data references with the writer', async () => {
+      const event = increment(1);
+      await store.appendToStream('counter-1', event);
+      (event.data as { by: number }).by = 100;
+
+      const [read] = await collect(store.readStream('counter-1'));
+      expect(read.event?.data).toEqual({ by: 1 });
+    });
+  });
+
+  describe('stream metadata', () => {
+    it('should prune events beyond $maxCount', async () => {
+      await store.setStreamMetadata('counter-1', { maxCount: 2 });
+      await store.appendToStream('counter-1', [increment(1), increment(2), increment(3)]);
+
+      const events = await collect(store.readStream('counter-1'));
+      expect(events.map(e => e.event?.revision)).toEqual([BigInt(1), BigInt(2)]);
+
+      const { metadata, metastreamRevision } = await store.getStreamMetadata('counter-1');
+      expect(metadata).toEqual({ maxCount: 2 });
+      expect(metastreamRevision).toBe(BigInt(0));
+    });
+
+    it('should soft delete streams and keep revision numbering', async () => {
+      await store.appendToStream('counter-1', [increment(1), increment(2)]);
+      await store.deleteStream('counter-1');
+
+      await expect(collect(store.readStream('counter-1'))).rejects.toBeInstanceOf(StreamNotFoundError);
+
+      const result = await store.appendToStream('counter-1', increment(3));
+      expect(result.nextExpectedRevision).toBe(BigInt(2));
+      const events = await collect(store.readStream('counter-1'));
+      expect(events.map(e => e.event?.data)).toEqual([{ by: 3 }]);
+    });
+  });
+
+  describe('readAll', () => {
+    it('should read events from every stream in commit order', async () => {
+      await store.appendToStream('counter-1', increment(1));
+      await store.appendToStream('counter-2', increment(2));
+
+      const events = await collect(store.readAll() as AsyncIterable<ResolvedEvent>);
+      expect(events.map(e => e.event?.streamId)).toEqual(['counter-1', 'counter-2']);
+    });
+  });
+
+  describe('subscriptions', () => {
+    const take = async (subscription: AsyncIterable<ResolvedEvent>, count: number) => {
+      const events: ResolvedEvent[] = [];
+      for await (const resolvedEvent of subscription) {
+        events.push(resolvedEvent);
+        if (events.length === count) break;
+      }
+      return events;
+    };
+
+    it('should replay a stream after the given revision, then deliver live events', async () => {
+      await store.appendToStream('counter-1', [increment(1), increment(2)]);
+      const subscription = store.subscribeToStream('counter-1', { fromRevision: BigInt(0) });
+      const caughtUp = new Promise(resolve => subscription.on('caughtUp', resolve));
+
+      const received = take(subscription, 2);
+      await caughtUp;
+      await store.appendToStream('counter-2', increment(3));
+      await store.appendToStream('counter-1', increment(4));
+
+      expect((await received).map(e => e.event?.data)).toEqual([{ by: 2 }, { by: 4 }]);
+      await subscription.unsubscribe();
+    });
+
+    it('should redeliver nacked events to a persistent group and park them after maxRetryCount', async () => {
+      await store.createPersistentSubscriptionToStream('counter-1', 'group', persistentSubscriptionToStreamSettingsFromDefaults({
+        startFrom: START,
+        maxRetryCount: 1,
+      }));
+      await store.appendToStream('counter-1', increment(1));
+      const subscription = store.subscribeToPersistentSubscriptionToStream('counter-1', 'group');
+
+      const retryCounts: number[] = [];
+      for await (const resolvedEvent of subscription) {
+        retryCounts.push(resolvedEvent.retryCount);
+        await subscription.nack(RETRY, 'not yet', resolvedEvent);
+        if (retryCounts.length === 2) break;
+      }
+
+      const parked = await collect(store.readStream('$persistentsubscription-counter-1::group-parked'));
+      expect(retryCounts).toEqual([0, 1]);
+      expect(parked.map(e => e.event?.metadata)).toEqual([{ reason: 'not yet' }]);
+      await expect(store.createPersistentSubscriptionToStream('counter-1', 'group', persistentSubscriptionToStreamSettingsFromDefaults()))
+        .rejects.toBeInstanceOf(PersistentSubscriptionExistsError);
+    });
+
+    it('should filter $all by stream name prefix', async () => {
+      await store.appendToStream('counter-1', increment(1));
+      await store.appendToStream('other-1', increment(2));
+      const subscription = store.subscribeToAll({ filter: streamNameFilter({ prefixes: ['counter-'] }) });
+
+      await store.appendToStream('counter-2', increment(3));
+
+      expect((await take(subscription, 2)).map(e => e.event?.streamId)).toEqual(['counter-1', 'counter-2']);
+      await subscription.unsubscribe();
+    });
+  });
+
+  describe('with StreamHelper', () => {
+    it('should serialize concurrent commands with optimistic concurrency', async () => {
+      const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, {
+        commandRetry: { initialDelayMs: 1 },
+      });
+      await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 1 } });
+
+      // Each command only increments while the count is below 2
+      const incrementBelowTwo = (state: CounterState | null): CounterIncremented[] =>
+        (state?.count ?? 0) < 2 ? [{ type: 'CounterIncremented', data: { by: 1 } }] : [];
+
+      const results = await Promise.all([
+        streamHelper.handleCommand('counter-1', applyEvent, incrementBelowTwo),
+        streamHelper.handleCommand('counter-1', applyEvent, incrementBelowTwo),
+      ]);
+
+      const { state } = await streamHelper.getCurrentState('counter-1', applyEvent);
+      expect(state).toEqual({ count: 2 });
+      expect(results.map(result => result.events.length).sort()).toEqual([0, 1]);
+    });
+
+    it('should handle commands on a stream recreated after a soft delete', async () => {
+      const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, {});
+      const incrementByOne = (): CounterIncremented[] => [{ type: 'CounterIncremented', data: { by: 1 } }];
+      await streamHelper.handleCommand('counter-1', applyEvent, incrementByOne);
+      await streamHelper.handleCommand('counter-1', applyEvent, incrementByOne);
+      await store.deleteStream('counter-1');
+      await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 10 } });
+
+      const result = await streamHelper.handleCommand('counter-1', applyEvent, incrementByOne);
+
+      expect(result).toEqual(expect.objectContaining({ state: { count: 11 }, version: 2, attempts: 1 }));
+      expect(result.appendResult?.nextExpectedRevision).toBe(BigInt(3));
+    });
+
+    it('should resume from the revision of a snapshot taken after a soft delete', async () => {
+      const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, { snapshotFrequency: 2 });
+      const incrementBy = (by: number) => (): CounterIncremented[] => [{ type: 'CounterIncremented', data: { by } }];
+      await store.appendToStream('counter-1', [increment(1), increment(1)]);
+      await store.deleteStream('counter-1');
+      await store.appendToStream('counter-1', [increment(10), increment(10)]);
+
+      expect(await streamHelper.getCurrentState('counter-1', applyEvent)).toEqual({ state: { count: 20 }, version: 2 });
+      await streamHelper.flushSnapshots();
+      expect(await streamHelper.getLatestSnapshot('counter-1')).toEqual(expect.objectContaining({ version: 2, revision: '3' }));
+      expect(await streamHelper.getCurrentState('counter-1', applyEvent)).toEqual({ state: { count: 20 }, version: 2 });
+
+      const result = await streamHelper.handleCommand('counter-1', applyEvent, incrementBy(15));
+
+      expect(result).toEqual(expect.objectContaining({ state: { count: 35 }, version: 3, attempts: 1 }));
+      expect(result.appendResult?.nextExpectedRevision).toBe(BigInt(4));
+    });
+
+    it('should handle a repeated command once per idempotency key', async () => {
+      const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, {});
+      const decrement = jest.fn((state: CounterState | null): CounterIncremented[] => {
+        if ((state?.count ?? 0) < 3) throw new Error('Insufficient funds');
+        return [{ type: 'CounterIncremented', data: { by: -3 } }, { type: 'CounterIncremented', data: { by: -1 } }];
+      });
+      await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 5 } });
+
+      const first = await streamHelper.handleCommand('counter-1', applyEvent, decrement, {}, { idempotencyKey: 'withdrawal-1' });
+      await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 10 } });
+      const repeated = await streamHelper.handleCommand('counter-1', applyEvent, decrement, {}, { idempotencyKey: 'withdrawal-1' });
+
+      expect(decrement).toHaveBeenCalledTimes(1);
+      expect(repeated.events).toEqual([]);
+      expect(repeated.appendResult).toEqual(first.appendResult);
+      expect(repeated.state).toEqual({ count: 11 });
+    });
+
+    it('should append once per idempotency key', async () => {
+      const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, {});
+      const event: CounterIncremented = { type: 'CounterIncremented', data: { by: 5 } };
+
+      const first = await streamHelper.appendEvent('counter-1', event, { idempotencyKey: 'request-1' });
+      const retried = await streamHelper.appendEvent('counter-1', event, { idempotencyKey: 'request-1' });
+      await streamHelper.appendEvent('counter-1', event, { idempotencyKey: 'request-2' });
+
+      expect(retried).toEqual(first);
+      const { state } = await streamHelper.getCurrentState('counter-1', applyEvent);
+      expect(state).toEqual({ count: 10 });
+    });
+
+    it('should rebuild state and snapshot without a server', async () => {
+      const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, {
+        snapshotFrequency: 2,
+      });
+
+      await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 2 } });
+      await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 3 } });
+
+      const result = await streamHelper.getCurrentState('counter-1', applyEvent);
+      expect(result).toEqual({ state: { count: 5 }, version: 2 });
+      await streamHelper.flushSnapshots();
+
+      await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 1 } });
+      await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 1 } });
+      await streamHelper.getCurrentState('counter-1', applyEvent);
+      await streamHelper.flushSnapshots();
+
+      const snapshots = await collect(store.readStream('counter-1-snapshot'));
+      expect(snapshots.map(e => (e.event?.data as { version: number }).version)).toEqual([4]);
+      expect((await store.getStreamMetadata('counter-1-snapshot')).metadata).toEqual({ maxCount: 1 });
+    });
+  });
+});
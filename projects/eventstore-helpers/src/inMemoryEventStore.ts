@@ -0,0 +1,781 @@
+/**
+ * InMemoryEventStore is a stand-in for EventStoreDBClient that keeps every stream in memory.
+ * It implements the subset of the client used by StreamHelper and AggregateHelper, so whole
+ * aggregate flows can run in unit tests and local demos without a server.
+ *
+ * Features:
+ * - Optimistic concurrency checks matching EventStoreDB (ANY, NO_STREAM, STREAM_EXISTS, revision)
+ * - Idempotent appends: re-sending events whose IDs were already written is a no-op
+ * - Per-stream revisions and global commit positions
+ * - Stream metadata with `$maxCount`, `$maxAge` and `$tb` (truncate before) applied on read
+ * - Soft deletes that keep revision numbering for recreated streams
+ * - Catch-up subscriptions to a stream or to $all (with stream name or event type filters), which
+ *   start after the given revision or position, emit `caughtUp` and then deliver new appends
+ * - Persistent subscription groups on a stream: events are handed round-robin to the connected
+ *   consumers, nacked events are retried up to `maxRetryCount` and parked events are linked from
+ *   the group's parked stream
+ */
+import { Readable } from 'stream';
+import { randomUUID } from 'crypto';
+import {
+  ANY,
+  BACKWARDS,
+  END,
+  NO_STREAM,
+  PARK,
+  RETRY,
+  START,
+  STOP,
+  STREAM_EXISTS,
+  STREAM_NAME,
+  PersistentSubscriptionDoesNotExistError,
+  PersistentSubscriptionExistsError,
+  StreamNotFoundError,
+  WrongExpectedVersionError,
+} from '@eventstore/db-client';
+import type {
+  AllStreamResolvedEvent,
+  AllStreamSubscription,
+  AppendExpectedRevision,
+  AppendResult,
+  AppendToStreamOptions,
+  CurrentRevision,
+  DeleteResult,
+  DeleteStreamOptions,
+  EventData,
+  EventType,
+  Filter,
+  GetStreamMetadataResult,
+  PersistentAction,
+  PersistentSubscriptionToStream,
+  PersistentSubscriptionToStreamInfo,
+  PersistentSubscriptionToStreamSettings,
+  Position,
+  ReadAllOptions,
+  ReadStreamOptions,
+  RecordedEvent,
+  ResolvedEvent,
+  SetStreamMetadataOptions,
+  StreamingRead,
+  StreamMetadata,
+  StreamSubscription,
+  SubscribeToAllOptions,
+  SubscribeToPersistentSubscriptionToStreamOptions,
+  SubscribeToStreamOptions,
+} from '@eventstore/db-client';
+import { EventStoreClient } from './types';
+
+interface StoredEvent {
+  streamId: string;
+  id: string;
+  type: string;
+  revision: bigint;
+  isJson: boolean;
+  data: string | Uint8Array;
+  metadata?: string | Uint8Array;
+  created: Date;
+  position: Position;
+}
+
+interface Subscriber {
+  matches(event: StoredEvent): boolean;
+  deliver(event: StoredEvent): void;
+}
+
+// An event handed to a persistent subscription consumer, and how often it was retried
+interface PersistentMessage {
+  event: StoredEvent;
+  retryCount: number;
+}
+
+interface GroupConsumer {
+  // Maximum number of unacked events handed to the consumer
+  bufferSize: number;
+  inFlight: Map<string, PersistentMessage>;
+  deliver(message: PersistentMessage): void;
+}
+
+interface PersistentGroup {
+  streamName: string;
+  groupName: string;
+  settings: PersistentSubscriptionToStreamSettings;
+  // Revision of the next stream event to hand out
+  nextRevision: bigint;
+  // Nacked events, and events of consumers that left before acking, to hand out again
+  retries: PersistentMessage[];
+  consumers: GroupConsumer[];
+  nextConsumer: number;
+}
+
+interface StoredStream {
+  events: StoredEvent[];
+  lastRevision: bigint;
+  metadata?: StreamMetadata;
+  metastreamRevision?: bigint;
+}
+
+export class InMemoryEventStore implements EventStoreClient {
+  private streams: Map<string, StoredStream> = new Map();
+  private log: StoredEvent[] = [];
+  private lastPosition = BigInt(0);
+  private subscribers: Set<Subscriber> = new Set();
+  private persistentGroups: Map<string, PersistentGroup> = new Map();
+
+  /**
+   * Appends events to a stream, enforcing the expected revision.
+   *
+   * @param streamName - The name of the stream to append to
+   * @param events - Event or events to append
+   * @param options - Append options, only `expectedRevision` is used
+   * @returns Promise resolving to the append result, or the original result when the write
+   * was already applied with the same event IDs
+   * @throws WrongExpectedVersionError when the stream is not at the expected revision
+   */
+  async appendToStream<KnownEventType extends EventType = EventType>(
+    streamName: string,
+    events: EventData<KnownEventType> | EventData<KnownEventType>[],
+    options: AppendToStreamOptions = {}
+  ): Promise<AppendResult> {
+    const expectedRevision = options.expectedRevision ?? ANY;
+    const eventList = Array.isArray(events) ? events : [events];
+    const stream = this.streams.get(streamName);
+
+    const previousWrite = stream && this.findPreviousWrite(stream, eventList.map(event => event.id), expectedRevision);
+    if (previousWrite) {
+      return previousWrite;
+    }
+
+    this.checkExpectedRevision(streamName, expectedRevision, this.currentRevision(stream));
+
+    const target = stream ?? { events: [], lastRevision: BigInt(-1) };
+    const created = new Date();
+    const written: StoredEvent[] = [];
+
+    for (const event of eventList) {
+      const isJson = event.contentType === 'application/json';
+      const stored: StoredEvent = {
+        streamId: streamName,
+        id: event.id,
+        type: event.type,
+        revision: target.lastRevision + BigInt(1),
+        isJson,
+        data: isJson ? JSON.stringify(event.data) : Uint8Array.from(event.data as Uint8Array),
+        metadata: this.encodeMetadata(event.metadata),
+        created,
+        position: this.nextPosition(),
+      };
+      target.events.push(stored);
+      target.lastRevision = stored.revision;
+      this.log.push(stored);
+      written.push(stored);
+    }
+
+    this.streams.set(streamName, target);
+    for (const subscriber of this.subscribers) {
+      written.filter(event => subscriber.matches(event)).forEach(event => subscriber.deliver(event));
+    }
+
+    return {
+      success: true,
+      nextExpectedRevision: target.lastRevision,
+      position: { commit: this.lastPosition, prepare: this.lastPosition },
+    };
+  }
+
+  /**
+   * Reads events from a stream.
+   *
+   * @param streamName - The name of the stream to read from
+   * @param options - Read options: direction, fromRevision and maxCount
+   * @returns A readable of resolved events; iterating it throws StreamNotFoundError
+   * when the stream does not exist
+   */
+  readStream<KnownEventType extends EventType = EventType>(
+    streamName: string,
+    options: ReadStreamOptions = {}
+  ): StreamingRead<ResolvedEvent<KnownEventType>> {
+    const stream = this.streams.get(streamName);
+    const visible = stream ? this.visibleEvents(stream) : [];
+    const backwards = options.direction === BACKWARDS;
+    const fromRevision = options.fromRevision ?? (backwards ? END : START);
+    const maxCount = options.maxCount !== undefined ? Number(options.maxCount) : Infinity;
+
+    let selected = visible.filter(event => {
+      if (fromRevision === START || fromRevision === END) return true;
+      return backwards ? event.revision <= fromRevision : event.revision >= fromRevision;
+    });
+    if (backwards) {
+      selected = selected.reverse();
+    }
+    if (!backwards && fromRevision === END) {
+      selected = [];
+    }
+    selected = selected.slice(0, maxCount);
+
+    const toResolved = (event: StoredEvent) => this.toResolvedEvent(event);
+    const exists = visible.length > 0;
+
+    return this.toStreamingRead(
+      (async function* () {
+        if (!exists) {
+          throw new StreamNotFoundError(undefined, streamName);
+        }
+        for (const event of selected) {
+          yield toResolved(event);
+        }
+      })()
+    ) as StreamingRead<ResolvedEvent<KnownEventType>>;
+  }
+
+  /**
+   * Reads events from the global log, in commit order.
+   *
+   * @param options - Read options: direction, fromPosition and maxCount
+   * @returns A readable of resolved events
+   */
+  readAll(options: ReadAllOptions = {}): StreamingRead<AllStreamResolvedEvent> {
+    const backwards = options.direction === BACKWARDS;
+    const fromPosition = options.fromPosition ?? (backwards ? END : START);
+    const maxCount = options.maxCount !== undefined ? Number(options.maxCount) : Infinity;
+
+    let selected = this.log.filter(event => {
+      if (fromPosition === START || fromPosition === END) return true;
+      return backwards ? event.position.commit <= fromPosition.commit : event.position.commit >= fromPosition.commit;
+    });
+    if (backwards) {
+      selected = selected.reverse();
+    }
+    if (!backwards && fromPosition === END) {
+      selected = [];
+    }
+    selected = selected.slice(0, maxCount);
+
+    const toResolved = (event: StoredEvent) => this.toResolvedEvent(event);
+
+    return this.toStreamingRead(
+      (async function* () {
+        for (const event of selected) {
+          yield toResolved(event);
+        }
+      })()
+    ) as StreamingRead<AllStreamResolvedEvent>;
+  }
+
+  /**
+   * Subscribes to a stream: delivers the events after `fromRevision` (exclusive, as in
+   * EventStoreDB), emits `caughtUp`, then delivers events as they are appended.
+   *
+   * @param streamName - The name of the stream
+   * @param options - Subscription options, only `fromRevision` is used
+   * @returns A readable subscription of resolved events
+   */
+  subscribeToStream<KnownEventType extends EventType = EventType>(
+    streamName: string,
+    options: SubscribeToStreamOptions = {}
+  ): StreamSubscription<KnownEventType> {
+    const fromRevision = options.fromRevision ?? START;
+    const stream = this.streams.get(streamName);
+    const backlog = fromRevision === END || !stream
+      ? []
+      : this.visibleEvents(stream).filter(event => fromRevision === START || event.revision > fromRevision);
+
+    return this.subscribe(backlog, event => event.streamId === streamName) as StreamSubscription<KnownEventType>;
+  }
+
+  /**
+   * Subscribes to the global log: delivers the events after `fromPosition` (exclusive) that pass
+   * the filter, emits `caughtUp`, then delivers matching events as they are appended.
+   *
+   * @param options - Subscription options: `fromPosition` and `filter`
+   * @returns A readable subscription of resolved events
+   */
+  subscribeToAll(options: SubscribeToAllOptions = {}): AllStreamSubscription {
+    const fromPosition = options.fromPosition ?? START;
+    const matches = (event: StoredEvent) => this.matchesFilter(event, options.filter);
+    const backlog = fromPosition === END
+      ? []
+      : this.log.filter(event => (fromPosition === START || event.position.commit > fromPosition.commit) && matches(event));
+
+    return this.subscribe(backlog, matches) as AllStreamSubscription;
+  }
+
+  /**
+   * Creates a persistent subscription group on a stream.
+   *
+   * @param streamName - The name of the stream
+   * @param groupName - The name of the group
+   * @param settings - Group settings; `startFrom` and `maxRetryCount` are used
+   * @throws PersistentSubscriptionExistsError when the group already exists
+   */
+  async createPersistentSubscriptionToStream(
+    streamName: string,
+    groupName: string,
+    settings: PersistentSubscriptionToStreamSettings
+  ): Promise<void> {
+    const key = this.persistentGroupKey(streamName, groupName);
+    if (this.persistentGroups.has(key)) {
+      throw persistentSubscriptionExists(streamName, groupName);
+    }
+
+    const stream = this.streams.get(streamName);
+    const group: PersistentGroup = {
+      streamName,
+      groupName,
+      settings: { ...settings },
+      nextRevision: settings.startFrom === START
+        ? BigInt(0)
+        : settings.startFrom === END ? (stream?.lastRevision ?? BigInt(-1)) + BigInt(1) : settings.startFrom,
+      retries: [],
+      consumers: [],
+      nextConsumer: 0,
+    };
+    this.persistentGroups.set(key, group);
+    this.subscribers.add({
+      matches: event => event.streamId === streamName && this.persistentGroups.get(key) === group,
+      deliver: () => this.dispatch(group),
+    });
+  }
+
+  /**
+   * Replaces the settings of a persistent subscription group. Unlike EventStoreDB, connected
+   * consumers are kept.
+   *
+   * @throws PersistentSubscriptionDoesNotExistError when the group does not exist
+   */
+  async updatePersistentSubscriptionToStream(
+    streamName: string,
+    groupName: string,
+    settings: PersistentSubscriptionToStreamSettings
+  ): Promise<void> {
+    this.getPersistentGroup(streamName, groupName).settings = { ...settings };
+  }
+
+  /**
+   * Gets a persistent subscription group. Only the source, group name, settings and number of
+   * connections are reported; statistics are not tracked.
+   *
+   * @throws PersistentSubscriptionDoesNotExistError when the group does not exist
+   */
+  async getPersistentSubscriptionToStreamInfo(
+    streamName: string,
+    groupName: string
+  ): Promise<PersistentSubscriptionToStreamInfo> {
+    const group = this.getPersistentGroup(streamName, groupName);
+    return {
+      eventSource: streamName,
+      groupName,
+      status: 'Live',
+      settings: { ...group.settings },
+      connections: group.consumers.map(() => ({})),
+    } as unknown as PersistentSubscriptionToStreamInfo;
+  }
+
+  /**
+   * Connects a consumer to a persistent subscription group. Events are handed out round-robin
+   * among the group's consumers with room in their buffer; an event is retried after
+   * `nack(RETRY)`, or when its consumer unsubscribes before acking it.
+   *
+   * @param streamName - The name of the stream
+   * @param groupName - The name of the group
+   * @param options - Connection options, only `bufferSize` is used
+   * @returns A readable of resolved events with `ack`, `nack` and `unsubscribe`; it fails with
+   * PersistentSubscriptionDoesNotExistError when the group does not exist
+   */
+  subscribeToPersistentSubscriptionToStream<KnownEventType extends EventType = EventType>(
+    streamName: string,
+    groupName: string,
+    options: SubscribeToPersistentSubscriptionToStreamOptions = {}
+  ): PersistentSubscriptionToStream<KnownEventType> {
+    const group = this.persistentGroups.get(this.persistentGroupKey(streamName, groupName));
+    const consumer: GroupConsumer = {
+      bufferSize: options.bufferSize ?? 10,
+      inFlight: new Map(),
+      deliver: message => queue.push({ ...this.toResolvedEvent(message.event), retryCount: message.retryCount }),
+    };
+    const queue = this.createQueueReadable(() => undefined, () => {
+      if (!group) return;
+      group.consumers = group.consumers.filter(connected => connected !== consumer);
+      group.retries.push(...consumer.inFlight.values());
+      consumer.inFlight.clear();
+      this.dispatch(group);
+    });
+
+    const settle = (events: ResolvedEvent[], handle: (message: PersistentMessage) => void) => {
+      for (const resolvedEvent of events) {
+        const id = (resolvedEvent.link ?? resolvedEvent.event)?.id;
+        const message = id !== undefined ? consumer.inFlight.get(id) : undefined;
+        if (message) {
+          consumer.inFlight.delete(id!);
+          handle(message);
+        }
+      }
+    };
+
+    Object.assign(queue.readable, {
+      unsubscribe: async () => queue.close(),
+      ack: async (...events: ResolvedEvent[]) => {
+        settle(events, () => undefined);
+        if (group) this.dispatch(group);
+      },
+      nack: async (action: PersistentAction, reason: string, ...events: ResolvedEvent[]) => {
+        if (!group) return;
+        if (action === STOP) {
+          queue.close();
+          return;
+        }
+        const parked: PersistentMessage[] = [];
+        settle(events, message => {
+          if (action === PARK || (action === RETRY && message.retryCount >= group.settings.maxRetryCount)) {
+            parked.push(message);
+          } else if (action === RETRY) {
+            group.retries.push({ ...message, retryCount: message.retryCount + 1 });
+          }
+        });
+        for (const message of parked) {
+          await this.parkMessage(group, message, reason);
+        }
+        this.dispatch(group);
+      },
+    });
+
+    if (group) {
+      group.consumers.push(consumer);
+      this.dispatch(group);
+    } else {
+      process.nextTick(() => queue.readable.destroy(
+        new PersistentSubscriptionDoesNotExistError(undefined, { streamName, groupName })
+      ));
+    }
+    return queue.readable as unknown as PersistentSubscriptionToStream<KnownEventType>;
+  }
+
+  /**
+   * Gets the metadata of a stream.
+   *
+   * @param streamName - The name of the stream
+   * @returns Promise resolving to the stream metadata, without `metadata` if none was set
+   */
+  async getStreamMetadata<CustomMetadata extends Record<string | number, unknown> = Record<string | number, unknown>>(
+    streamName: string
+  ): Promise<GetStreamMetadataResult<CustomMetadata>> {
+    const stream = this.streams.get(streamName);
+    return {
+      streamName,
+      metadata: stream?.metadata ? { ...stream.metadata } as StreamMetadata<CustomMetadata> : undefined,
+      metastreamRevision: stream?.metastreamRevision,
+    };
+  }
+
+  /**
+   * Sets the metadata of a stream. The stream does not need to exist.
+   *
+   * @param streamName - The name of the stream
+   * @param metadata - The metadata to store, replacing any previous metadata
+   * @param options - Options, `expectedRevision` is checked against the metadata revision
+   * @returns Promise resolving to the append result of the metadata write
+   */
+  async setStreamMetadata(
+    streamName: string,
+    metadata: StreamMetadata,
+    options: SetStreamMetadataOptions = {}
+  ): Promise<AppendResult> {
+    const stream = this.streams.get(streamName) ?? { events: [], lastRevision: BigInt(-1) };
+    const current = stream.metastreamRevision ?? NO_STREAM;
+    this.checkExpectedRevision(`$$${streamName}`, options.expectedRevision ?? ANY, current);
+
+    stream.metadata = { ...metadata };
+    stream.metastreamRevision = current === NO_STREAM ? BigInt(0) : current + BigInt(1);
+    this.streams.set(streamName, stream);
+
+    const position = this.nextPosition();
+    return {
+      success: true,
+      nextExpectedRevision: stream.metastreamRevision,
+      position,
+    };
+  }
+
+  /**
+   * Soft deletes a stream. Reading it throws StreamNotFoundError, and appending to it again
+   * continues from the last revision, as EventStoreDB does.
+   *
+   * @param streamName - The name of the stream to delete
+   * @param options - Options, `expectedRevision` is checked before deleting
+   * @returns Promise resolving to the delete result
+   */
+  async deleteStream(streamName: string, options: DeleteStreamOptions = {}): Promise<DeleteResult> {
+    const stream = this.streams.get(streamName);
+    this.checkExpectedRevision(streamName, options.expectedRevision ?? ANY, this.currentRevision(stream));
+
+    if (stream) {
+      stream.metadata = {
+        ...stream.metadata,
+        truncateBefore: Number(stream.lastRevision + BigInt(1)),
+      };
+    }
+
+    return { position: { commit: this.lastPosition, prepare: this.lastPosition } };
+  }
+
+  /**
+   * Finds a previous write of the same event IDs, following EventStoreDB's idempotency rules:
+   * with an explicit revision the events must directly follow it, with NO_STREAM they must start
+   * the stream, and with ANY or STREAM_EXISTS they may be anywhere in the stream.
+   */
+  private findPreviousWrite(
+    stream: StoredStream,
+    eventIds: string[],
+    expected: AppendExpectedRevision
+  ): AppendResult | null {
+    if (eventIds.length === 0) return null;
+
+    const start = stream.events.findIndex(event => event.id === eventIds[0]);
+    if (start === -1) return null;
+    if (typeof expected === 'bigint' && stream.events[start].revision !== expected + BigInt(1)) return null;
+    if (expected === NO_STREAM && stream.events[start].revision !== BigInt(0)) return null;
+
+    const written = stream.events.slice(start, start + eventIds.length);
+    if (written.length !== eventIds.length || written.some((event, i) => event.id !== eventIds[i])) {
+      return null;
+    }
+
+    const last = written[written.length - 1];
+    return {
+      success: true,
+      nextExpectedRevision: last.revision,
+      position: { ...last.position },
+    };
+  }
+
+  /**
+   * Gets the revision of the last event written to a stream, ignoring metadata truncation.
+   */
+  private currentRevision(stream?: StoredStream): CurrentRevision {
+    if (!stream || stream.lastRevision < BigInt(0)) {
+      return NO_STREAM;
+    }
+    return stream.lastRevision;
+  }
+
+  /**
+   * Throws WrongExpectedVersionError when the current revision does not satisfy the expected one.
+   */
+  private checkExpectedRevision(
+    streamName: string,
+    expected: AppendExpectedRevision,
+    current: CurrentRevision
+  ): void {
+    const satisfied =
+      expected === ANY ||
+      (expected === NO_STREAM && current === NO_STREAM) ||
+      (expected === STREAM_EXISTS && current !== NO_STREAM) ||
+      (typeof expected === 'bigint' && current === expected);
+
+    if (!satisfied) {
+      throw new WrongExpectedVersionError(undefined, { streamName, expected, current });
+    }
+  }
+
+  /**
+   * Applies `$tb`, `$maxAge` and `$maxCount` metadata to the events of a stream.
+   */
+  private visibleEvents(stream: StoredStream): StoredEvent[] {
+    const { truncateBefore, maxAge, maxCount } = stream.metadata ?? {};
+    let events = stream.events;
+
+    if (typeof truncateBefore === 'number') {
+      events = events.filter(event => event.revision >= BigInt(truncateBefore));
+    }
+    if (maxAge !== undefined) {
+      const oldest = Date.now() - maxAge * 1000;
+      events = events.filter(event => event.created.getTime() >= oldest);
+    }
+    if (maxCount !== undefined) {
+      events = events.slice(Math.max(events.length - maxCount, 0));
+    }
+
+    return events;
+  }
+
+  /**
+   * Creates a readable fed first from the backlog, then from new appends. It hands out one event
+   * per read, so `caughtUp` is emitted once the reader has taken the last backlog event.
+   */
+  private subscribe(backlog: StoredEvent[], matches: (event: StoredEvent) => boolean): Readable {
+    let caughtUp = false;
+    const subscriber: Subscriber = {
+      matches,
+      deliver: event => queue.push(this.toResolvedEvent(event)),
+    };
+    const queue = this.createQueueReadable(
+      () => {
+        if (!caughtUp) {
+          caughtUp = true;
+          queue.readable.emit('caughtUp');
+        }
+      },
+      () => this.subscribers.delete(subscriber)
+    );
+
+    backlog.forEach(event => queue.push(this.toResolvedEvent(event)));
+    this.subscribers.add(subscriber);
+    Object.assign(queue.readable, { unsubscribe: async () => queue.close() });
+    return queue.readable;
+  }
+
+  /**
+   * Creates a readable handing out queued events one per read. `onDrained` runs when a read finds
+   * the queue empty, `onClose` once when the reader unsubscribes.
+   */
+  private createQueueReadable(onDrained: () => void, onClose: () => void) {
+    const queue: unknown[] = [];
+    let waiting = false;
+    let closed = false;
+
+    const readable = new Readable({
+      objectMode: true,
+      highWaterMark: 1,
+      read: () => {
+        if (closed) return;
+        if (queue.length > 0) {
+          readable.push(queue.shift());
+          return;
+        }
+        waiting = true;
+        onDrained();
+      },
+    });
+
+    return {
+      readable,
+      push: (item: unknown) => {
+        if (closed) return;
+        if (waiting) {
+          waiting = false;
+          readable.push(item);
+        } else {
+          queue.push(item);
+        }
+      },
+      close: () => {
+        if (!closed) {
+          closed = true;
+          onClose();
+          readable.push(null);
+        }
+      },
+    };
+  }
+
+  private persistentGroupKey(streamName: string, groupName: string): string {
+    return `${streamName}::${groupName}`;
+  }
+
+  private getPersistentGroup(streamName: string, groupName: string): PersistentGroup {
+    const group = this.persistentGroups.get(this.persistentGroupKey(streamName, groupName));
+    if (!group) {
+      throw new PersistentSubscriptionDoesNotExistError(undefined, { streamName, groupName });
+    }
+    return group;
+  }
+
+  /**
+   * Hands retried events, then new stream events, round-robin to the consumers with room in their
+   * buffer.
+   */
+  private dispatch(group: PersistentGroup): void {
+    for (;;) {
+      const available = group.consumers.filter(consumer => consumer.inFlight.size < consumer.bufferSize);
+      if (available.length === 0) return;
+      const message = group.retries.shift() ?? this.nextGroupEvent(group);
+      if (!message) return;
+
+      const consumer = available[group.nextConsumer++ % available.length];
+      consumer.inFlight.set(message.event.id, message);
+      consumer.deliver(message);
+    }
+  }
+
+  private nextGroupEvent(group: PersistentGroup): PersistentMessage | undefined {
+    const stream = this.streams.get(group.streamName);
+    const event = stream && this.visibleEvents(stream).find(stored => stored.revision >= group.nextRevision);
+    if (!event) return undefined;
+    group.nextRevision = event.revision + BigInt(1);
+    return { event, retryCount: 0 };
+  }
+
+  /**
+   * Links a parked event from the group's parked stream, as EventStoreDB does, with the nack
+   * reason in the link metadata.
+   */
+  private async parkMessage(group: PersistentGroup, message: PersistentMessage, reason: string): Promise<void> {
+    await this.appendToStream(`$persistentsubscription-${group.streamName}::${group.groupName}-parked`, {
+      id: randomUUID(),
+      type: '$>',
+      data: new TextEncoder().encode(`${message.event.revision}@${message.event.streamId}`),
+      metadata: { reason },
+      contentType: 'application/octet-stream',
+    } as EventData);
+  }
+
+  private matchesFilter(event: StoredEvent, filter?: Filter): boolean {
+    if (!filter) return true;
+    const value = filter.filterOn === STREAM_NAME ? event.streamId : event.type;
+    return 'prefixes' in filter
+      ? filter.prefixes.some(prefix => value.startsWith(prefix))
+      : new RegExp(filter.regex).test(value);
+  }
+
+  private nextPosition(): Position {
+    this.lastPosition += BigInt(1);
+    return { commit: this.lastPosition, prepare: this.lastPosition };
+  }
+
+  private encodeMetadata(metadata: unknown): string | Uint8Array | undefined {
+    if (metadata === undefined) return undefined;
+    if (metadata instanceof Uint8Array) return Uint8Array.from(metadata);
+    return JSON.stringify(metadata);
+  }
+
+  /**
+   * Rebuilds a resolved event from storage, so readers never share references with writers.
+   */
+  private toResolvedEvent(event: StoredEvent): ResolvedEvent & AllStreamResolvedEvent {
+    const recorded = {
+      streamId: event.streamId,
+      id: event.id,
+      isJson: event.isJson,
+      revision: event.revision,
+      type: event.type,
+      created: new Date(event.created),
+      data: typeof event.data === 'string' ? JSON.parse(event.data) : Uint8Array.from(event.data),
+      metadata: typeof event.metadata === 'string'
+        ? JSON.parse(event.metadata)
+        : event.metadata && Uint8Array.from(event.metadata),
+      position: { ...event.position },
+    } as RecordedEvent & { position: Position };
+
+    return {
+      event: recorded,
+      commitPosition: event.position.commit,
+    } as ResolvedEvent & AllStreamResolvedEvent;
+  }
+
+  private toStreamingRead<T>(source: AsyncGenerator<T>): StreamingRead<T> {
+    const readable = Readable.from(source) as unknown as StreamingRead<T>;
+    readable.cancel = async () => {
+      readable.destroy();
+    };
+    return readable;
+  }
+}
+
+// PersistentSubscriptionExistsError is only built from gRPC errors, so fake the parts it reads
+function persistentSubscriptionExists(streamName: string, groupName: string): PersistentSubscriptionExistsError {
+  const serviceError = {
+    code: 6,
+    message: `6 ALREADY_EXISTS: Subscription group ${groupName} on stream ${streamName} exists.`,
+    metadata: { getMap: () => ({ 'stream-name': streamName, 'group-name': groupName }) },
+  };
+  return new PersistentSubscriptionExistsError(serviceError as unknown as ConstructorParameters<typeof PersistentSubscriptionExistsError>[0]);
+}
@@ -1,3 +1,23 @@
 export * from './types';
 export * from './streamHelpers';
+export * from './eventReadPipeline';
 export * from './aggregateHelper';
+export * from './subscriptionHelper';
+export * from './persistentConsumer';
+export * from './transactionProcessor';
+export * from './projection';
+export * from './projectionRunner';
+export * from './snapshotStores';
+export * from './checkpointStores';
+export * from './readModelStores';
+export * from './snapshotPolicies';
+export * from './eventIds';
+export * from './migrationRegistry';
+export * from './eventDecoder';
+export * from './eventCodecs';
+export * from './fieldEncryption';
+export * from './keyStores';
+export * from './metadataContext';
+export * from './eventValidation';
+export * from './inMemoryEventStore';
+export * from './logger';
@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSystemKeyStore, InMemoryKeyStore } from './keyStores';
+
+describe('InMemoryKeyStore', () => {
+  it('should create a key once and forget it on delete', async () => {
+    const store = new InMemoryKeyStore();
+
+    expect(await store.get('subject-1')).toBeNull();
+    const key = await store.getOrCreate('subject-1');
+    expect(key).toHaveLength(32);
+    expect(await store.getOrCreate('subject-1')).toBe(key);
+
+    await store.delete('subject-1');
+    expect(await store.get('subject-1')).toBeNull();
+    expect(await store.getOrCreate('subject-1')).not.toEqual(key);
+  });
+});
+
+describe('FileSystemKeyStore', () => {
+  let directory: string;
+  let store: FileSystemKeyStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'keys-'));
+    store = new FileSystemKeyStore(path.join(directory, 'nested'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist keys across store instances', async () => {
+    expect(await store.get('user/1')).toBeNull();
+
+    const key = await store.getOrCreate('user/1');
+
+    expect(Buffer.from(await new FileSystemKeyStore(path.join(directory, 'nested')).get('user/1') as Uint8Array))
+      .toEqual(Buffer.from(key));
+    expect(await fs.readdir(path.join(directory, 'nested'))).toEqual(['user%2F1.key']);
+  });
+
+  it('should hand out a single key to concurrent creators', async () => {
+    const keys = await Promise.all([1, 2, 3].map(() => store.getOrCreate('subject-1')));
+
+    expect(Buffer.from(keys[1])).toEqual(Buffer.from(keys[0]));
+    expect(Buffer.from(keys[2])).toEqual(Buffer.from(keys[0]));
+  });
+
+  it('should delete keys', async () => {
+    await store.getOrCreate('subject-1');
+    await store.delete('subject-1');
+    await store.delete('subject-1');
+
+    expect(await store.get('subject-1')).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * KeyStore implementations used by FieldEncryption to keep per-subject encryption keys.
+ *
+ * - InMemoryKeyStore: keys in a map, for tests and short-lived processes
+ * - FileSystemKeyStore: one key file per subject, for single-node deployments
+ *
+ * Keys are 256-bit and created on first use. A deleted key is gone for good: a later write for the
+ * same subject creates a new key, which cannot decrypt anything written before.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes, randomUUID } from 'crypto';
+import { KeyStore } from './types';
+
+const KEY_LENGTH = 32;
+
+export class InMemoryKeyStore implements KeyStore {
+  private keys: Map<string, Uint8Array> = new Map();
+
+  async get(subjectId: string): Promise<Uint8Array | null> {
+    return this.keys.get(subjectId) ?? null;
+  }
+
+  async getOrCreate(subjectId: string): Promise<Uint8Array> {
+    let key = this.keys.get(subjectId);
+    if (!key) {
+      key = randomBytes(KEY_LENGTH);
+      this.keys.set(subjectId, key);
+    }
+    return key;
+  }
+
+  async delete(subjectId: string): Promise<void> {
+    this.keys.delete(subjectId);
+  }
+}
+
+export class FileSystemKeyStore implements KeyStore {
+  private directory: string;
+
+  /**
+   * @param directory - Directory holding one `<subjectId>.key` file per subject, created on first write
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(subjectId: string): Promise<Uint8Array | null> {
+    try {
+      const contents = await fs.readFile(this.getFilePath(subjectId), 'utf8');
+      return Buffer.from(contents, 'base64');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a new key to a temporary file and links it into place. Linking fails when another
+   * writer created the key first, in which case that key is used, so a subject never gets two keys.
+   */
+  async getOrCreate(subjectId: string): Promise<Uint8Array> {
+    const existing = await this.get(subjectId);
+    if (existing) {
+      return existing;
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.getFilePath(subjectId);
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    const key = randomBytes(KEY_LENGTH);
+    await fs.writeFile(tempPath, key.toString('base64'), { encoding: 'utf8', mode: 0o600 });
+    try {
+      await fs.link(tempPath, filePath);
+      return key;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return (await this.get(subjectId))!;
+      }
+      throw error;
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  async delete(subjectId: string): Promise<void> {
+    await fs.rm(this.getFilePath(subjectId), { force: true });
+  }
+
+  private getFilePath(subjectId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(subjectId)}.key`);
+  }
+}
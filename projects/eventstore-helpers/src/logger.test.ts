@@ -0,0 +1,25 @@
+import { createConsoleLogger, noopLogger } from './logger';
+
+describe('logger', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should discard messages with the no-op logger', () => {
+    const log = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    noopLogger.debug('Applied event', { streamId: 'test' });
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('should write messages at or above the minimum level', () => {
+    const debug = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const logger = createConsoleLogger('info');
+
+    logger.debug('Applied event', { streamId: 'test' });
+    logger.warn('Account not found', { streamId: 'test' });
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('Account not found', { streamId: 'test' });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Pluggable structured logging for the helpers.
+ *
+ * Helpers never write to the console on their own; they report through a Logger passed in
+ * their config and default to `noopLogger`. Log fields carry identifiers such as streamId,
+ * revision and eventType, never event data or state.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Logger that discards everything, used when no logger is configured
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Creates a logger that writes to the console, dropping messages below the given level.
+ *
+ * @param minLevel - The lowest level to write
+ * @returns A console-backed logger
+ */
+export function createConsoleLogger(minLevel: LogLevel = 'info'): Logger {
+  const enabled = (level: LogLevel) => LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+  const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (enabled(level)) {
+      console[level](message, fields);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
@@ -0,0 +1,103 @@
+import { ResolvedEvent } from '@eventstore/db-client';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { causedBy, getMetadataContext, runWithMetadataContext, stampMetadata } from './metadataContext';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent, EnvelopedEvent } from './types';
+
+interface CounterState {
+  count: number;
+  [key: string]: unknown;
+}
+
+interface CounterIncremented extends BaseEvent<'CounterIncremented', {
+  by: number;
+}> { }
+
+const collect = async (read: AsyncIterable<ResolvedEvent>) => {
+  const events: ResolvedEvent[] = [];
+  for await (const resolvedEvent of read) {
+    events.push(resolvedEvent);
+  }
+  return events;
+};
+
+const envelope = {
+  id: 'event-2',
+  streamId: 'account-1',
+  revision: BigInt(1),
+  created: new Date('2025-01-20T15:49:09Z'),
+  schemaVersion: 1,
+};
+
+describe('metadata context', () => {
+  it('should keep the context across awaits and only inside the callback', async () => {
+    const context = { correlationId: 'flow-1', causationId: 'command-1' };
+
+    const seen = await runWithMetadataContext(context, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      return getMetadataContext();
+    });
+
+    expect(seen).toEqual(context);
+    expect(getMetadataContext()).toBeUndefined();
+  });
+
+  it('should continue the flow of a handled event', () => {
+    expect(causedBy({ ...envelope, correlationId: 'flow-1' })).toEqual({ correlationId: 'flow-1', causationId: 'event-2' });
+    expect(causedBy(envelope)).toEqual({ correlationId: 'event-2', causationId: 'event-2' });
+  });
+
+  it('should stamp metadata without overwriting IDs already present', () => {
+    const context = { correlationId: 'flow-1', causationId: 'event-2' };
+
+    expect(stampMetadata({ userId: 'u1' }, context)).toEqual({
+      $correlationId: 'flow-1',
+      $causationId: 'event-2',
+      userId: 'u1',
+    });
+    expect(stampMetadata({ $correlationId: 'flow-0' }, context)).toEqual({
+      $correlationId: 'flow-0',
+      $causationId: 'event-2',
+    });
+  });
+});
+
+describe('with StreamHelper', () => {
+  let store: InMemoryEventStore;
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  it('should propagate correlation and causation IDs through handlers and transactions', async () => {
+    const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, {});
+
+    const { eventIds: [rootId] } = await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 1 } });
+    let root!: EnvelopedEvent<CounterIncremented>;
+    for await (const enveloped of streamHelper.readStreamWithEnvelopes('counter-1')) {
+      root = enveloped;
+    }
+    expect(root.envelope).toEqual(expect.objectContaining({ correlationId: rootId, causationId: rootId }));
+
+    // A handler reacting to the root event, writing directly and through a transaction stream
+    await runWithMetadataContext(causedBy(root.envelope), async () => {
+      await streamHelper.appendEvent('counter-2', { type: 'CounterIncremented', data: { by: 2 } });
+      await streamHelper.appendMultiStreamEvents('tx-1', [
+        { streamId: 'counter-3', event: { type: 'CounterIncremented', data: { by: 3 }, metadata: { userId: 'u1' } } },
+      ]);
+    });
+    await streamHelper.processTransactionStream('$tx-tx-1');
+
+    const caused = { $correlationId: rootId, $causationId: rootId };
+    const [direct] = await collect(store.readStream('counter-2'));
+    const [transferred] = await collect(store.readStream('counter-3'));
+    const transaction = await collect(store.readStream('$tx-tx-1'));
+    expect(direct.event?.metadata).toEqual(expect.objectContaining(caused));
+    expect(transferred.event?.metadata).toEqual(expect.objectContaining({ ...caused, userId: 'u1', version: 1 }));
+    expect(transaction.map(resolved => resolved.event?.metadata)).toEqual([
+      caused,
+      { $correlationId: rootId, $causationId: transaction[0].event?.id },
+      { $correlationId: rootId, $causationId: transaction[0].event?.id },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Correlation and causation IDs for tracing a business flow across events.
+ *
+ * Every event written by the helpers gets `$correlationId` and `$causationId` in its metadata,
+ * following the EventStoreDB convention:
+ *
+ * - Inside `runWithMetadataContext(context, fn)`, events written by `fn` (including across awaits)
+ *   take both IDs from the context
+ * - An explicit `metadataContext` in the append options overrides the ambient one
+ * - Otherwise a write starts a new flow: its events are correlated to, and caused by, the first
+ *   event of the write
+ *
+ * To handle an event, run the handler in `causedBy(envelope)`: events it writes keep the
+ * correlation ID of the flow and name the handled event as their cause.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventEnvelope, EventMetadata } from './types';
+
+export const CORRELATION_ID = '$correlationId';
+export const CAUSATION_ID = '$causationId';
+
+export type MetadataContext = {
+  // ID shared by all events of one business flow
+  correlationId: string;
+  // ID of the event or command that caused the events being written
+  causationId: string;
+};
+
+const storage = new AsyncLocalStorage<MetadataContext>();
+
+/**
+ * Runs a function with a metadata context, stamped on every event written while it runs.
+ *
+ * @param context - The correlation and causation IDs
+ * @param fn - The function to run
+ * @returns What the function returns
+ */
+export function runWithMetadataContext<T>(context: MetadataContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Gets the metadata context of the current async execution, if any.
+ */
+export function getMetadataContext(): MetadataContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Builds the context for events written while handling an event: same correlation ID, and the
+ * handled event as the cause.
+ *
+ * @param envelope - The envelope of the handled event
+ * @returns The metadata context
+ */
+export function causedBy(envelope: EventEnvelope): MetadataContext {
+  return {
+    correlationId: envelope.correlationId ?? envelope.id,
+    causationId: envelope.id,
+  };
+}
+
+/**
+ * Adds correlation and causation IDs to event metadata. IDs already in the metadata are kept, so
+ * copied events stay in their original flow.
+ *
+ * @param metadata - The event metadata
+ * @param context - The IDs to add
+ * @returns The stamped metadata
+ */
+export function stampMetadata(metadata: EventMetadata | undefined, context: MetadataContext): EventMetadata {
+  return {
+    [CORRELATION_ID]: context.correlationId,
+    [CAUSATION_ID]: context.causationId,
+    ...metadata,
+  };
+}
@@ -0,0 +1,233 @@
+import { ResolvedEvent } from '@eventstore/db-client';
+import { EventMigrationRegistry, MigrationError } from './migrationRegistry';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent, EventDowncaster, EventMigration } from './types';
+
+type NameSetV1 = BaseEvent<'NameSet', { name: string }> & { version: 1 };
+type NameSetV2 = BaseEvent<'NameSet', { firstName: string; lastName: string }> & { version: 2 };
+type NameSetV3 = BaseEvent<'NameSet', { firstName: string; lastName: string; display: string }> & { version: 3 };
+type NameSet = NameSetV1 | NameSetV2 | NameSetV3;
+
+const v1ToV2: EventMigration<NameSetV1, NameSetV2> = {
+  eventType: 'NameSet',
+  fromVersion: 1,
+  toVersion: 2,
+  migrate: event => {
+    const [firstName, lastName = ''] = event.data.name.split(' ');
+    return { type: 'NameSet', version: 2, data: { firstName, lastName } };
+  },
+};
+
+const v2ToV3: EventMigration<NameSetV2, NameSetV3> = {
+  eventType: 'NameSet',
+  fromVersion: 2,
+  toVersion: 3,
+  migrate: event => ({
+    type: 'NameSet',
+    version: 3,
+    data: { ...event.data, display: `${event.data.lastName}, ${event.data.firstName}` },
+  }),
+};
+
+const expectMigrationError = (build: () => unknown, message: string) => {
+  expect(build).toThrow(MigrationError);
+  expect(build).toThrow(message);
+};
+
+interface CounterState {
+  count: number;
+  [key: string]: unknown;
+}
+
+interface CounterIncremented extends BaseEvent<'CounterIncremented', {
+  by: number;
+}> { }
+
+const collect = async (read: AsyncIterable<ResolvedEvent>) => {
+  const events: ResolvedEvent[] = [];
+  for await (const resolvedEvent of read) {
+    events.push(resolvedEvent);
+  }
+  return events;
+};
+
+describe('EventMigrationRegistry', () => {
+  it('should migrate events through the whole chain', async () => {
+    const registry = EventMigrationRegistry.builder<NameSet>().chain(v1ToV2, v2ToV3).build();
+
+    const [migrated] = await registry.migrate({ type: 'NameSet', version: 1, data: { name: 'Ada Lovelace' } });
+
+    expect(migrated).toEqual({
+      type: 'NameSet',
+      version: 3,
+      data: { firstName: 'Ada', lastName: 'Lovelace', display: 'Lovelace, Ada' },
+    });
+    expect(registry.getTargetVersion('NameSet')).toBe(3);
+    expect(registry.getTargetVersion('Other')).toBeUndefined();
+  });
+
+  it('should leave current and unknown events unchanged', async () => {
+    const registry = new EventMigrationRegistry<BaseEvent>([v2ToV3, v1ToV2]);
+    const current = { type: 'NameSet', version: 3, data: {} };
+    const other = { type: 'Other', data: {} };
+
+    expect(await registry.migrate(current)).toEqual([current]);
+    expect(await registry.migrate(other)).toEqual([other]);
+    expect(registry.getTargetVersions()).toEqual(new Map([['NameSet', 3]]));
+  });
+
+  it('should reject gaps, duplicates and migrations that do not move forwards', () => {
+    expectMigrationError(() => new EventMigrationRegistry([v1ToV2, { ...v2ToV3, fromVersion: 4, toVersion: 5 }]),
+      'Gap in migrations of NameSet: version 2 has no migration');
+    expectMigrationError(() => new EventMigrationRegistry([v1ToV2, v1ToV2]),
+      'Duplicate migration of NameSet from version 1');
+    expectMigrationError(() => new EventMigrationRegistry([{ ...v1ToV2, fromVersion: 2, toVersion: 1 }]),
+      'does not move forwards');
+    expectMigrationError(() => EventMigrationRegistry.builder().chain(v1ToV2, { ...v2ToV3, fromVersion: 3 } as any),
+      'Migration chain of NameSet breaks after version 2');
+  });
+
+  it('should throw MigrationError for versions below the start of the chain', async () => {
+    const registry = new EventMigrationRegistry([v2ToV3]);
+
+    const migration = registry.migrate({ type: 'NameSet', version: 1, data: {} });
+
+    await expect(migration).rejects.toBeInstanceOf(MigrationError);
+    await expect(migration).rejects.toMatchObject({ eventType: 'NameSet', version: 1 });
+  });
+
+  it('should support async migrations that split and drop events', async () => {
+    type Transferred = BaseEvent<'MoneyTransferred', { amount: number; to: string }>;
+    type Withdrawn = BaseEvent<'MoneyWithdrawn', { amount: number }>;
+    type Deposited = BaseEvent<'MoneyDeposited', { amount: number; account: string }>;
+    type Legacy = BaseEvent<'LegacyAudit', Record<string, never>>;
+    type Event = Transferred | Withdrawn | Deposited | Legacy;
+
+    const registry = EventMigrationRegistry.builder<Event>()
+      .add<Transferred, Withdrawn | Deposited>({
+        eventType: 'MoneyTransferred',
+        fromVersion: 1,
+        toVersion: 2,
+        migrate: async event => [
+          { type: 'MoneyWithdrawn', data: { amount: event.data.amount } },
+          { type: 'MoneyDeposited', data: { amount: event.data.amount, account: event.data.to } },
+        ],
+      })
+      .add<Legacy, Legacy>({ eventType: 'LegacyAudit', fromVersion: 1, toVersion: 2, migrate: () => [] })
+      .add<Deposited, Deposited>({
+        eventType: 'MoneyDeposited',
+        fromVersion: 1,
+        toVersion: 2,
+        migrate: event => ({ ...event, data: { ...event.data, account: event.data.account.toUpperCase() } }),
+      })
+      .build();
+
+    expect(await registry.migrate({ type: 'MoneyTransferred', data: { amount: 5, to: 'acc-2' } })).toEqual([
+      { type: 'MoneyWithdrawn', data: { amount: 5 } },
+      { type: 'MoneyDeposited', data: { amount: 5, account: 'acc-2' }, version: 2 },
+    ]);
+    expect(await registry.migrate({ type: 'LegacyAudit', data: {} })).toEqual([]);
+  });
+
+  it('should stop migrations that loop between event types', async () => {
+    const registry = new EventMigrationRegistry([
+      { eventType: 'A', fromVersion: 1, toVersion: 2, migrate: () => ({ type: 'B', version: 1, data: {} }) },
+      { eventType: 'B', fromVersion: 1, toVersion: 2, migrate: () => ({ type: 'A', version: 1, data: {} }) },
+    ]);
+
+    await expect(registry.migrate({ type: 'A', data: {} })).rejects.toThrow('did not reach a target version');
+  });
+
+  describe('downcast', () => {
+    const v3ToV2: EventDowncaster<NameSetV3, NameSetV2> = {
+      eventType: 'NameSet',
+      fromVersion: 3,
+      toVersion: 2,
+      downcast: ({ data: { firstName, lastName } }) => ({ type: 'NameSet', version: 2, data: { firstName, lastName } }),
+    };
+    const v2ToV1: EventDowncaster<NameSetV2, NameSetV1> = {
+      eventType: 'NameSet',
+      fromVersion: 2,
+      toVersion: 1,
+      downcast: async event => ({
+        type: 'NameSet',
+        version: 1,
+        data: { name: `${event.data.firstName} ${event.data.lastName}` },
+      }),
+    };
+    const current: NameSetV3 = {
+      type: 'NameSet',
+      version: 3,
+      data: { firstName: 'Ada', lastName: 'Lovelace', display: 'Lovelace, Ada' },
+    };
+
+    it('should downcast events through the chain to the requested version', async () => {
+      const registry = EventMigrationRegistry.builder<NameSet>()
+        .chain(v1ToV2, v2ToV3)
+        .addDowncaster(v3ToV2)
+        .addDowncaster(v2ToV1)
+        .build();
+
+      expect(await registry.downcast(current, 1)).toEqual({ type: 'NameSet', version: 1, data: { name: 'Ada Lovelace' } });
+      expect((await registry.downcast(current, 2)).version).toBe(2);
+      expect(await registry.downcast(current, 3)).toBe(current);
+    });
+
+    it('should reject downcasters that do not move backwards or leave gaps', () => {
+      expectMigrationError(() => new EventMigrationRegistry([], [{ ...v2ToV1, toVersion: 3 }]),
+        'Downcaster of NameSet from version 2 to 3 does not move backwards');
+      expectMigrationError(() => new EventMigrationRegistry([], [v3ToV2, { ...v2ToV1, fromVersion: 5, toVersion: 4 }]),
+        'Gap in downcasters of NameSet: version 4 has no downcaster');
+    });
+
+    it('should throw MigrationError when no chain leads to the requested version', async () => {
+      const registry = new EventMigrationRegistry<NameSet>([], [v3ToV2]);
+
+      await expect(registry.downcast(current, 1)).rejects.toThrow('No downcaster of NameSet from version 2 to version 1');
+    });
+  });
+
+  it('should type check each step against the previous one', () => {
+    const builder = EventMigrationRegistry.builder<NameSet>();
+
+    // @ts-expect-error v1ToV2 does not accept the V2 events produced by the first step
+    expect(() => builder.chain(v1ToV2, v1ToV2)).toThrow(MigrationError);
+  });
+});
+
+describe('with StreamHelper', () => {
+  let store: InMemoryEventStore;
+
+  beforeEach(() => {
+    store = new InMemoryEventStore();
+  });
+
+  it('should write and read events at an older schema version', async () => {
+    const toV1 = {
+      eventType: 'CounterIncremented',
+      fromVersion: 2,
+      toVersion: 1,
+      downcast: (event: CounterIncremented): CounterIncremented => ({ ...event, data: { by: event.data.by * 10 } }),
+    };
+    const streamHelper = new StreamHelper<CounterState, CounterIncremented>(store, {
+      currentEventVersion: 2,
+      eventMigrations: new EventMigrationRegistry<CounterIncremented>([], [toV1]),
+    });
+
+    await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 1 } }, { schemaVersion: 1 });
+    await streamHelper.appendEvent('counter-1', { type: 'CounterIncremented', data: { by: 2 } });
+
+    const stored = await collect(store.readStream('counter-1'));
+    expect(stored.map(e => [e.event?.data, (e.event?.metadata as { version: number }).version])).toEqual([
+      [{ by: 10 }, 1],
+      [{ by: 2 }, 2],
+    ]);
+
+    const asV1: CounterIncremented[] = [];
+    for await (const event of streamHelper.readStream('counter-1', { schemaVersion: 1 })) {
+      asV1.push(event);
+    }
+    expect(asV1.map(event => [event.data.by, event.version])).toEqual([[10, 1], [20, 1]]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * EventMigrationRegistry holds the upcasting chains of every event type and checks them when built.
+ *
+ * - Chains must be contiguous: each migration starts at the version the previous one ended at
+ * - Two migrations may not start at the same version of an event type
+ * - Migrations must move forwards (toVersion > fromVersion), so chains cannot loop
+ * - `chain(v1ToV2, v2ToV3, ...)` checks at compile time that each step accepts the previous output
+ *
+ * Migrations may be async and may return zero, one or many events. Returned events of the migrated
+ * type continue along its chain; events of other types continue along their own chains.
+ *
+ * Downcasters are the reverse: one-to-one steps to older versions, checked by the same rules, used to
+ * write or read events at the schema version an older consumer still expects.
+ */
+import type { BaseEvent, EventDowncaster, EventMigration } from './types';
+
+// Thrown when a migration chain is invalid, or an event cannot be brought to its target version
+export class MigrationError extends Error {
+  readonly eventType: string;
+  readonly version?: number;
+
+  constructor(message: string, eventType: string, version?: number) {
+    super(message);
+    this.name = 'MigrationError';
+    this.eventType = eventType;
+    this.version = version;
+  }
+}
+
+type AnyEventMigration = EventMigration<any, any>;
+type AnyEventDowncaster = EventDowncaster<any, any>;
+type VersionStep = Pick<AnyEventMigration, 'eventType' | 'fromVersion' | 'toVersion'>;
+
+// Upper bound on chained migration steps for one stored event, guarding against cross-type loops
+const MAX_MIGRATION_STEPS = 100;
+
+export class EventMigrationRegistry<E extends BaseEvent = BaseEvent> {
+  // Migrations and downcasters per event type, keyed by fromVersion
+  private chains: Map<string, Map<number, AnyEventMigration>>;
+  private downcastChains: Map<string, Map<number, AnyEventDowncaster>>;
+  private targetVersions: Map<string, number> = new Map();
+
+  /**
+   * Builds a registry from flat lists of migrations and downcasters, validating every chain.
+   *
+   * @param migrations - The migrations, in any order
+   * @param downcasters - The downcasters, in any order
+   * @throws MigrationError when a chain has a gap, a duplicate step or moves the wrong way
+   */
+  constructor(migrations: AnyEventMigration[] = [], downcasters: AnyEventDowncaster[] = []) {
+    this.chains = indexChains(migrations, 'migration');
+    this.downcastChains = indexChains(downcasters, 'downcaster');
+
+    for (const [eventType, chain] of this.chains) {
+      this.targetVersions.set(eventType, Math.max(...[...chain.values()].map(step => step.toVersion)));
+    }
+  }
+
+  /**
+   * Starts a builder for a registry of the given event union.
+   */
+  static builder<E extends BaseEvent = BaseEvent>(): EventMigrationRegistryBuilder<E> {
+    return new EventMigrationRegistryBuilder<E>();
+  }
+
+  /**
+   * Gets the version events of a type are migrated to.
+   *
+   * @param eventType - The event type
+   * @returns The target version, or undefined when the type has no migrations
+   */
+  getTargetVersion(eventType: string): number | undefined {
+    return this.targetVersions.get(eventType);
+  }
+
+  /**
+   * Gets the target version of every event type with migrations.
+   */
+  getTargetVersions(): ReadonlyMap<string, number> {
+    return new Map(this.targetVersions);
+  }
+
+  /**
+   * Migrates an event to the target version of its type. Events without migrations, and events
+   * already at or past the target version, are returned unchanged.
+   *
+   * Events of another type returned by a migration are taken to be at their type's target version
+   * unless they set `version`.
+   *
+   * @param event - The event to migrate; a missing version is read as 1
+   * @returns Promise resolving to the migrated events, in order; empty when the event was dropped
+   * @throws MigrationError when the chain has no step for the event's version
+   */
+  async migrate(event: E): Promise<E[]> {
+    return this.migrateStep(event, 0) as Promise<E[]>;
+  }
+
+  private async migrateStep(event: BaseEvent, steps: number): Promise<BaseEvent[]> {
+    const chain = this.chains.get(event.type);
+    const targetVersion = this.targetVersions.get(event.type);
+    const version = event.version ?? 1;
+    if (!chain || targetVersion === undefined || version >= targetVersion) {
+      return [event];
+    }
+
+    const migration = chain.get(version);
+    if (!migration) {
+      throw new MigrationError(
+        `No migration of ${event.type} from version ${version} to target version ${targetVersion}`,
+        event.type,
+        version
+      );
+    }
+    if (steps >= MAX_MIGRATION_STEPS) {
+      throw new MigrationError(
+        `Migration of ${event.type} did not reach a target version after ${steps} steps`,
+        event.type,
+        version
+      );
+    }
+
+    const result = await migration.migrate(event);
+    const migrated: BaseEvent[] = [];
+    for (const next of Array.isArray(result) ? result : [result]) {
+      const nextVersion = next.type === event.type
+        ? migration.toVersion
+        : next.version ?? this.targetVersions.get(next.type);
+      const nextEvent = nextVersion === undefined ? next : { ...next, version: nextVersion };
+      migrated.push(...await this.migrateStep(nextEvent, steps + 1));
+    }
+    return migrated;
+  }
+
+  /**
+   * Downcasts an event to an older schema version. Events at or below the requested version are
+   * returned unchanged.
+   *
+   * @param event - The event to downcast; a missing version is read as 1
+   * @param schemaVersion - The version to downcast to
+   * @returns Promise resolving to the downcast event, with `version` set to `schemaVersion`
+   * @throws MigrationError when no downcaster chain leads from the event's version to `schemaVersion`
+   */
+  async downcast(event: E, schemaVersion: number): Promise<E> {
+    const chain = this.downcastChains.get(event.type);
+    let downcast: BaseEvent = event;
+    let version = event.version ?? 1;
+
+    while (version > schemaVersion) {
+      const downcaster = chain?.get(version);
+      if (!downcaster || downcaster.toVersion < schemaVersion) {
+        throw new MigrationError(
+          `No downcaster of ${event.type} from version ${version} to version ${schemaVersion}`,
+          event.type,
+          version
+        );
+      }
+      downcast = { ...await downcaster.downcast(downcast), version: downcaster.toVersion };
+      version = downcaster.toVersion;
+    }
+
+    return downcast as E;
+  }
+}
+
+/**
+ * Indexes migration or downcaster steps by event type and fromVersion, checking that each step
+ * moves in its direction, that no two steps start at the same version and that chains have no gaps.
+ */
+function indexChains<T extends VersionStep>(steps: T[], kind: 'migration' | 'downcaster'): Map<string, Map<number, T>> {
+  const forwards = kind === 'migration';
+  const chains = new Map<string, Map<number, T>>();
+
+  for (const step of steps) {
+    const { eventType, fromVersion, toVersion } = step;
+    if (forwards ? toVersion <= fromVersion : toVersion >= fromVersion) {
+      throw new MigrationError(
+        `${forwards ? 'Migration' : 'Downcaster'} of ${eventType} from version ${fromVersion} to ${toVersion} ` +
+          `does not move ${forwards ? 'forwards' : 'backwards'}`,
+        eventType,
+        fromVersion
+      );
+    }
+
+    const chain = chains.get(eventType) ?? new Map<number, T>();
+    if (chain.has(fromVersion)) {
+      throw new MigrationError(`Duplicate ${kind} of ${eventType} from version ${fromVersion}`, eventType, fromVersion);
+    }
+    chain.set(fromVersion, step);
+    chains.set(eventType, chain);
+  }
+
+  for (const [eventType, chain] of chains) {
+    const ordered = [...chain.values()].sort((a, b) => forwards ? a.fromVersion - b.fromVersion : b.fromVersion - a.fromVersion);
+    for (let i = 1; i < ordered.length; i++) {
+      if (ordered[i].fromVersion !== ordered[i - 1].toVersion) {
+        throw new MigrationError(
+          `Gap in ${kind}s of ${eventType}: version ${ordered[i - 1].toVersion} has no ${kind}`,
+          eventType,
+          ordered[i - 1].toVersion
+        );
+      }
+    }
+  }
+
+  return chains;
+}
+
+export class EventMigrationRegistryBuilder<E extends BaseEvent = BaseEvent> {
+  private migrations: AnyEventMigration[] = [];
+  private downcasters: AnyEventDowncaster[] = [];
+
+  /**
+   * Adds a single migration step.
+   */
+  add<Source extends E, Target extends E>(migration: EventMigration<Source, Target>): this {
+    this.migrations.push(migration);
+    return this;
+  }
+
+  /**
+   * Adds consecutive migration steps of one event type. Each step must accept the event type
+   * returned by the previous one, e.g. `chain(v1ToV2, v2ToV3)`.
+   */
+  chain<V1 extends E, V2 extends E>(m1: EventMigration<V1, V2>): this;
+  chain<V1 extends E, V2 extends E, V3 extends E>(m1: EventMigration<V1, V2>, m2: EventMigration<V2, V3>): this;
+  chain<V1 extends E, V2 extends E, V3 extends E, V4 extends E>(
+    m1: EventMigration<V1, V2>,
+    m2: EventMigration<V2, V3>,
+    m3: EventMigration<V3, V4>
+  ): this;
+  chain<V1 extends E, V2 extends E, V3 extends E, V4 extends E, V5 extends E>(
+    m1: EventMigration<V1, V2>,
+    m2: EventMigration<V2, V3>,
+    m3: EventMigration<V3, V4>,
+    m4: EventMigration<V4, V5>
+  ): this;
+  chain(...migrations: AnyEventMigration[]): this {
+    for (let i = 1; i < migrations.length; i++) {
+      const previous = migrations[i - 1];
+      const step = migrations[i];
+      if (step.eventType !== previous.eventType || step.fromVersion !== previous.toVersion) {
+        throw new MigrationError(
+          `Migration chain of ${previous.eventType} breaks after version ${previous.toVersion}`,
+          previous.eventType,
+          previous.toVersion
+        );
+      }
+    }
+    this.migrations.push(...migrations);
+    return this;
+  }
+
+  /**
+   * Adds a downcaster step to an older version.
+   */
+  addDowncaster<Source extends E, Target extends E>(downcaster: EventDowncaster<Source, Target>): this {
+    this.downcasters.push(downcaster);
+    return this;
+  }
+
+  /**
+   * Validates all chains and creates the registry.
+   *
+   * @throws MigrationError when a chain is invalid
+   */
+  build(): EventMigrationRegistry<E> {
+    return new EventMigrationRegistry<E>(this.migrations, this.downcasters);
+  }
+}
@@ -0,0 +1,166 @@
+import { ResolvedEvent, START } from '@eventstore/db-client';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { ParkedEventFailure, PersistentConsumer } from './persistentConsumer';
+import { StreamHelper } from './streamHelpers';
+import { jsonSchemaValidator } from './eventValidation';
+import { CAUSATION_ID } from './metadataContext';
+import { BaseEvent } from './types';
+
+interface PaymentRequested extends BaseEvent<'PaymentRequested', { paymentId: string; amount: number }> { }
+type PaymentEvent = PaymentRequested;
+
+const requested = (paymentId: string, amount = 10): PaymentRequested => ({
+  type: 'PaymentRequested',
+  data: { paymentId, amount },
+});
+
+// Polls until the condition holds, as consumers handle events in the background
+const until = async (condition: () => boolean | Promise<boolean>, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const readAll = async (client: InMemoryEventStore, streamName: string) => {
+  const events: ResolvedEvent[] = [];
+  for await (const resolvedEvent of client.readStream(streamName)) {
+    events.push(resolvedEvent);
+  }
+  return events;
+};
+
+describe('PersistentConsumer', () => {
+  let client: InMemoryEventStore;
+  let writer: StreamHelper<any, PaymentEvent>;
+
+  beforeEach(() => {
+    client = new InMemoryEventStore();
+    writer = new StreamHelper<any, PaymentEvent>(client, {});
+  });
+
+  it('should create a group once and update it only when its settings change', async () => {
+    const consumer = new PersistentConsumer<PaymentEvent>(client);
+
+    expect(await consumer.ensureGroup('payments', 'billing', { startFrom: START })).toBe('created');
+    expect(await consumer.ensureGroup('payments', 'billing', { startFrom: START })).toBe('unchanged');
+    expect(await consumer.ensureGroup('payments', 'billing', { maxRetryCount: 3 })).toBe('updated');
+
+    const info = await client.getPersistentSubscriptionToStreamInfo('payments', 'billing');
+    expect(info.settings).toEqual(expect.objectContaining({ resolveLinkTos: true, maxRetryCount: 3 }));
+  });
+
+  it('should share events between competing consumers and ack each once', async () => {
+    await writer.appendEvents('payments', [requested('p1')]);
+    const handledBy: Record<string, string[]> = { a: [], b: [] };
+    const consumerFor = (name: string) => new PersistentConsumer<PaymentEvent>(client).consume({
+      stream: 'payments',
+      group: 'billing',
+      settings: { startFrom: START },
+      handlers: {
+        PaymentRequested: event => { handledBy[name].push(event.data.paymentId); },
+      },
+    });
+
+    const first = consumerFor('a');
+    const second = consumerFor('b');
+    await until(async () => (await client.getPersistentSubscriptionToStreamInfo('payments', 'billing')
+      .then(info => info.connections.length, () => 0)) === 2);
+    await writer.appendEvents('payments', [requested('p2'), requested('p3'), requested('p4'), requested('p5')]);
+    await until(() => handledBy.a.length + handledBy.b.length === 5);
+    await Promise.all([first.stop(), second.stop()]);
+
+    expect([...handledBy.a, ...handledBy.b].sort()).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+    expect(handledBy.a.length).toBeGreaterThan(1);
+    expect(handledBy.b.length).toBeGreaterThan(1);
+  });
+
+  it('should retry a failing handler with backoff before acking', async () => {
+    await writer.appendEvents('payments', [requested('p1')]);
+    let attempts = 0;
+    const running = new PersistentConsumer<PaymentEvent>(client, { retry: { initialDelayMs: 1 } }).consume({
+      stream: 'payments',
+      group: 'billing',
+      settings: { startFrom: START },
+      handlers: {
+        PaymentRequested: () => {
+          if (++attempts < 3) throw new Error('gateway timeout');
+        },
+      },
+    });
+
+    await until(() => attempts === 3);
+    await running.stop();
+
+    expect(await readAll(client, 'deadletter-billing').catch(() => [])).toEqual([]);
+  });
+
+  it('should park poison events with failure details and keep consuming', async () => {
+    await writer.appendEvents('payments', [requested('poison'), requested('p2')]);
+    const handled: string[] = [];
+    const running = new PersistentConsumer<PaymentEvent>(client, {
+      retry: { maxAttempts: 2, initialDelayMs: 1 },
+    }).consume({
+      stream: 'payments',
+      group: 'billing',
+      settings: { startFrom: START },
+      handlers: {
+        PaymentRequested: event => {
+          if (event.data.paymentId === 'poison') throw new TypeError('amount is not a number');
+          handled.push(event.data.paymentId);
+        },
+      },
+    });
+
+    await until(async () => handled.length === 1 && (await readAll(client, 'deadletter-billing').catch(() => [])).length === 1);
+    await running.stop();
+
+    const [record] = await readAll(client, 'deadletter-billing');
+    const [poison] = await readAll(client, 'payments');
+    expect(record.event?.type).toBe('EventParked');
+    expect(record.event?.data).toEqual<ParkedEventFailure>({
+      eventId: poison.event!.id,
+      eventType: 'PaymentRequested',
+      streamId: 'payments',
+      revision: '0',
+      stream: 'payments',
+      group: 'billing',
+      stage: 'handler',
+      attempts: 2,
+      retryCount: 0,
+      error: { name: 'TypeError', message: 'amount is not a number' },
+      parkedAt: expect.any(String),
+    });
+    expect(record.event?.metadata).toEqual(expect.objectContaining({ [CAUSATION_ID]: poison.event!.id }));
+
+    const [parked] = await readAll(client, '$persistentsubscription-payments::billing-parked');
+    expect(parked.event?.metadata).toEqual({ reason: 'TypeError: amount is not a number' });
+  });
+
+  it('should park events that fail read validation without retrying them', async () => {
+    await writer.appendEvents('payments', [requested('p1', -5)]);
+    const handler = jest.fn();
+    const running = new PersistentConsumer<PaymentEvent>(client, {
+      readValidation: 'strict',
+      eventValidators: {
+        PaymentRequested: jsonSchemaValidator({
+          type: 'object',
+          properties: { amount: { type: 'number', minimum: 0 } },
+        }),
+      },
+    }).consume({
+      stream: 'payments',
+      group: 'billing',
+      settings: { startFrom: START },
+      handlers: { PaymentRequested: handler },
+    });
+
+    await until(async () => (await readAll(client, 'deadletter-billing').catch(() => [])).length === 1);
+    await running.stop();
+
+    const [record] = await readAll(client, 'deadletter-billing');
+    expect(record.event?.data).toEqual(expect.objectContaining({ stage: 'decode', attempts: 0 }));
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
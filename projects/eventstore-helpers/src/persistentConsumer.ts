@@ -0,0 +1,289 @@
+/**
+ * PersistentConsumer runs a competing consumer on an EventStoreDB persistent subscription group.
+ *
+ * Features:
+ * - Creates the group, or updates it when its settings differ, so every instance can call it on start
+ * - Events go through the same read pipeline as reads: decoding, decryption, migration, validation
+ *   and optional downcasting
+ * - Typed handlers per event type, run in the metadata context of the handled event
+ * - Failed handlers are retried in-process with exponential backoff; events that still fail, or
+ *   cannot be decoded, are parked
+ * - Each parked event gets an `EventParked` record with structured failure details in the group's
+ *   dead-letter stream
+ *
+ * The server redelivers events that are not acked within `messageTimeout`, so keep the retry
+ * delays well below it.
+ */
+import {
+  PARK,
+  PersistentSubscriptionExistsError,
+  PersistentSubscriptionToStreamSettings,
+  ResolvedEvent,
+  persistentSubscriptionToStreamSettingsFromDefaults,
+} from '@eventstore/db-client';
+import { BaseEvent, EnvelopedEvent, EventStoreClient, ReadPipelineConfig, RetryOptions } from './types';
+import { EventHandler, EventHandlers } from './subscriptionHelper';
+import { EventReadPipeline } from './eventReadPipeline';
+import { decodeEnvelope } from './eventDecoder';
+import { encodeEventData, jsonCodec } from './eventCodecs';
+import { causedBy, runWithMetadataContext, stampMetadata } from './metadataContext';
+import { deterministicEventId } from './eventIds';
+import { Logger } from './logger';
+
+type PersistentConsumerConfig<E extends BaseEvent> = ReadPipelineConfig<E> & {
+  // Attempts and backoff for failing handlers before an event is parked
+  retry?: RetryOptions;
+  // Prefix of the dead-letter streams, one per group, defaults to 'deadletter-'
+  deadLetterPrefix?: string;
+};
+
+export interface ConsumeOptions<E extends BaseEvent> {
+  stream: string;
+  group: string;
+  handlers: EventHandlers<E>;
+  // Group settings passed to ensureGroup; `resolveLinkTos` defaults to true
+  settings?: Partial<PersistentSubscriptionToStreamSettings>;
+  // Number of events the server sends ahead of acks, defaults to 10
+  bufferSize?: number;
+  // Schema version to hand events to the handlers at, downcasting them after migration
+  schemaVersion?: number;
+}
+
+export interface RunningConsumer {
+  // Resolves when the consumer is stopped, rejects when the connection fails
+  done: Promise<void>;
+  stop(): Promise<void>;
+}
+
+export type EnsureGroupResult = 'created' | 'updated' | 'unchanged';
+
+// Data of the EventParked record written to the dead-letter stream for each parked event
+export type ParkedEventFailure = {
+  eventId: string;
+  eventType: string;
+  streamId: string;
+  // Stream revision as a decimal string
+  revision: string;
+  stream: string;
+  group: string;
+  // 'handler' when the handlers kept failing, 'decode' when the event could not be read
+  stage: 'handler' | 'decode';
+  attempts: number;
+  // Number of times the server had already delivered the event
+  retryCount: number;
+  error: { name: string; message: string };
+  parkedAt: string;
+};
+
+const deadLetterCodec = jsonCodec();
+
+export class PersistentConsumer<E extends BaseEvent> {
+  private client: EventStoreClient;
+  private pipeline: EventReadPipeline<E>;
+  private logger: Logger;
+  private retry: Required<RetryOptions>;
+  private deadLetterPrefix: string;
+
+  /**
+   * @param client - The EventStoreDB client instance
+   * @param config - The read pipeline settings, handler retries and dead-letter prefix
+   * @throws MigrationError when `eventMigrations` contains an invalid chain
+   */
+  constructor(client: EventStoreClient, config: PersistentConsumerConfig<E> = {}) {
+    this.client = client;
+    this.pipeline = new EventReadPipeline<E>(config);
+    this.logger = this.pipeline.logger;
+    this.retry = {
+      maxAttempts: 3,
+      initialDelayMs: 50,
+      maxDelayMs: 1000,
+      backoffFactor: 2,
+      ...config.retry,
+    };
+    this.deadLetterPrefix = config.deadLetterPrefix ?? 'deadletter-';
+  }
+
+  /**
+   * Creates a persistent subscription group, or updates it when its settings differ from the
+   * given ones. `startFrom` only applies when the group is created.
+   *
+   * @param stream - The stream the group subscribes to
+   * @param group - The group name
+   * @param settings - Settings overriding the client defaults; `resolveLinkTos` defaults to true
+   * @returns Promise resolving to what was done
+   */
+  async ensureGroup(
+    stream: string,
+    group: string,
+    settings: Partial<PersistentSubscriptionToStreamSettings> = {}
+  ): Promise<EnsureGroupResult> {
+    const desired = persistentSubscriptionToStreamSettingsFromDefaults({ resolveLinkTos: true, ...settings });
+    try {
+      await this.client.createPersistentSubscriptionToStream(stream, group, desired);
+      this.logger.info('Created persistent subscription group', { stream, group });
+      return 'created';
+    } catch (error) {
+      if (!(error instanceof PersistentSubscriptionExistsError)) {
+        throw error;
+      }
+    }
+
+    const { settings: current } = await this.client.getPersistentSubscriptionToStreamInfo(stream, group);
+    const changed = (Object.keys(desired) as (keyof PersistentSubscriptionToStreamSettings)[])
+      .filter(key => key !== 'startFrom' && current[key] !== desired[key]);
+    if (changed.length === 0) {
+      return 'unchanged';
+    }
+
+    await this.client.updatePersistentSubscriptionToStream(stream, group, desired);
+    this.logger.info('Updated persistent subscription group', { stream, group, changed });
+    return 'updated';
+  }
+
+  /**
+   * Ensures the group exists, then consumes its events until stopped. Each event is acked once
+   * its handlers succeed, and parked once they have failed `retry.maxAttempts` times.
+   *
+   * @param options - Stream, group, handlers and group settings
+   * @returns The running consumer
+   */
+  consume(options: ConsumeOptions<E>): RunningConsumer {
+    const { stream, group } = options;
+    let subscription: ReturnType<EventStoreClient['subscribeToPersistentSubscriptionToStream']> | undefined;
+    let stopped = false;
+
+    const run = async () => {
+      await this.ensureGroup(stream, group, options.settings);
+      if (stopped) return;
+      subscription = this.client.subscribeToPersistentSubscriptionToStream(stream, group, {
+        bufferSize: options.bufferSize ?? 10,
+      });
+      this.logger.info('Started persistent consumer', { stream, group });
+
+      for await (const resolvedEvent of subscription) {
+        const failure = await this.handleEvent(options, resolvedEvent);
+        if (failure) {
+          await this.park(failure, resolvedEvent);
+          await subscription.nack(PARK, `${failure.error.name}: ${failure.error.message}`, resolvedEvent);
+        } else {
+          await subscription.ack(resolvedEvent);
+        }
+      }
+    };
+
+    const done = run().catch(async error => {
+      this.logger.error('Persistent consumer failed', {
+        stream,
+        group,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await subscription?.unsubscribe();
+      throw error;
+    });
+    // A failure is reported through done
+    done.catch(() => undefined);
+
+    return {
+      done,
+      stop: async () => {
+        stopped = true;
+        await subscription?.unsubscribe();
+        await done.catch(() => undefined);
+        this.logger.info('Stopped persistent consumer', { stream, group });
+      },
+    };
+  }
+
+  /**
+   * Decodes an event and runs its handler, retrying with backoff.
+   *
+   * @returns The failure to park the event with, or null when the event was handled
+   */
+  private async handleEvent(
+    options: ConsumeOptions<E>,
+    resolvedEvent: ResolvedEvent & { retryCount?: number }
+  ): Promise<ParkedEventFailure | null> {
+    let events: EnvelopedEvent<E>[];
+    try {
+      events = await this.pipeline.resolve(resolvedEvent, options.schemaVersion);
+    } catch (error) {
+      return this.describeFailure(options, resolvedEvent, 'decode', 0, error);
+    }
+
+    const { maxAttempts, initialDelayMs, maxDelayMs, backoffFactor } = this.retry;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        for (const { event, envelope } of events) {
+          const handler = options.handlers[event.type as E['type']] as EventHandler<E> | undefined;
+          if (handler) {
+            await runWithMetadataContext(causedBy(envelope), () => handler(event, envelope));
+          }
+        }
+        return null;
+      } catch (error) {
+        if (attempt >= maxAttempts) {
+          return this.describeFailure(options, resolvedEvent, 'handler', attempt, error);
+        }
+
+        const delayMs = Math.min(initialDelayMs * Math.pow(backoffFactor, attempt - 1), maxDelayMs);
+        this.logger.warn('Retrying failed event handler', {
+          stream: options.stream,
+          group: options.group,
+          eventId: resolvedEvent.event?.id,
+          attempt,
+          delayMs,
+        });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  private describeFailure(
+    options: ConsumeOptions<E>,
+    resolvedEvent: ResolvedEvent & { retryCount?: number },
+    stage: ParkedEventFailure['stage'],
+    attempts: number,
+    error: unknown
+  ): ParkedEventFailure {
+    const recorded = resolvedEvent.event!;
+    return {
+      eventId: recorded.id,
+      eventType: recorded.type,
+      streamId: recorded.streamId,
+      revision: recorded.revision.toString(),
+      stream: options.stream,
+      group: options.group,
+      stage,
+      attempts,
+      retryCount: resolvedEvent.retryCount ?? 0,
+      error: error instanceof Error
+        ? { name: error.name, message: error.message }
+        : { name: 'Error', message: String(error) },
+      parkedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Writes the EventParked record to the group's dead-letter stream. Its ID is derived from the
+   * parked event, so a redelivery parked again does not write a second record.
+   */
+  private async park(failure: ParkedEventFailure, resolvedEvent: ResolvedEvent): Promise<void> {
+    const deadLetterStream = `${this.deadLetterPrefix}${failure.group}`;
+    const envelope = decodeEnvelope(resolvedEvent)!;
+    await this.client.appendToStream(deadLetterStream, encodeEventData(deadLetterCodec, {
+      id: deterministicEventId(deadLetterStream, `${failure.stream}/${failure.eventId}`),
+      type: 'EventParked',
+      data: failure,
+      metadata: stampMetadata({}, causedBy(envelope)),
+    }));
+
+    this.logger.warn('Parked event', {
+      stream: failure.stream,
+      group: failure.group,
+      eventId: failure.eventId,
+      eventType: failure.eventType,
+      stage: failure.stage,
+      attempts: failure.attempts,
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { Projection, ProjectionHandlers } from './projection';
+import { InMemoryReadModelStore } from './readModelStores';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent } from './types';
+
+interface AccountOpened extends BaseEvent<'AccountOpened', { accountId: string }> { }
+interface MoneyDeposited extends BaseEvent<'MoneyDeposited', { accountId: string; amount: number }> { }
+interface AccountClosed extends BaseEvent<'AccountClosed', { accountId: string }> { }
+type AccountEvent = AccountOpened | MoneyDeposited | AccountClosed;
+
+type Balance = { accountId: string; balance: number };
+
+const handlers: ProjectionHandlers<AccountEvent> = {
+  AccountOpened: (event, readModel) => {
+    readModel.set<Balance>('balances', event.data.accountId, { accountId: event.data.accountId, balance: 0 });
+  },
+  MoneyDeposited: async (event, readModel) => {
+    const current = await readModel.get<Balance>('balances', event.data.accountId);
+    if (event.data.amount <= 0) throw new Error(`Invalid deposit of ${event.data.amount}`);
+    readModel.set<Balance>('balances', event.data.accountId, { ...current!, balance: current!.balance + event.data.amount });
+  },
+  AccountClosed: (event, readModel) => {
+    readModel.delete('balances', event.data.accountId);
+  },
+};
+
+describe('Projection', () => {
+  let client: InMemoryEventStore;
+  let store: InMemoryReadModelStore;
+  let writer: StreamHelper<any, AccountEvent>;
+
+  const opened = (accountId: string): AccountOpened => ({ type: 'AccountOpened', data: { accountId } });
+  const deposited = (accountId: string, amount: number): MoneyDeposited => ({ type: 'MoneyDeposited', data: { accountId, amount } });
+
+  beforeEach(() => {
+    client = new InMemoryEventStore();
+    store = new InMemoryReadModelStore();
+    writer = new StreamHelper<any, AccountEvent>(client, {});
+  });
+
+  it('should build a read model from a category and go live', async () => {
+    await writer.appendEvents('account-1', [opened('1'), deposited('1', 50)]);
+    await writer.appendEvents('account-2', [opened('2'), { type: 'AccountClosed', data: { accountId: '2' } }]);
+    const projection = new Projection<AccountEvent>(client, { name: 'balances', source: { category: 'account' }, handlers, store });
+    expect(projection.status().state).toBe('stopped');
+
+    await projection.start();
+    expect(projection.status()).toEqual(expect.objectContaining({ state: 'live', eventsHandled: 4 }));
+
+    await writer.appendEvents('account-1', [deposited('1', 25)]);
+    await projection.stop();
+
+    expect(await store.list('balances')).toEqual([{ accountId: '1', balance: 75 }]);
+    expect(projection.status().state).toBe('stopped');
+    expect(await store.loadCheckpoint('balances')).toEqual(projection.status().checkpoint);
+  });
+
+  it('should commit writes in batches with their checkpoint, reading uncommitted writes back', async () => {
+    await writer.appendEvents('account-1', [opened('1'), deposited('1', 10), deposited('1', 5)]);
+    const commit = jest.spyOn(store, 'commit');
+    const projection = new Projection<AccountEvent>(client, {
+      name: 'balances',
+      source: { category: 'account' },
+      handlers,
+      store,
+      batchSize: 2,
+    });
+
+    await projection.start();
+    expect(commit).toHaveBeenCalledTimes(1);
+    expect(await store.get('balances', '1')).toEqual({ accountId: '1', balance: 10 });
+
+    await projection.stop();
+    expect(commit).toHaveBeenCalledTimes(2);
+    expect(await store.get('balances', '1')).toEqual({ accountId: '1', balance: 15 });
+  });
+
+  it('should hold events while paused and catch up on resume', async () => {
+    await writer.appendEvents('account-1', [opened('1')]);
+    const projection = new Projection<AccountEvent>(client, { name: 'balances', source: { category: 'account' }, handlers, store });
+    await projection.start();
+
+    await projection.pause();
+    await writer.appendEvents('account-1', [deposited('1', 30)]);
+    expect(projection.status().state).toBe('paused');
+    expect(await store.get('balances', '1')).toEqual({ accountId: '1', balance: 0 });
+
+    await projection.resume();
+    await projection.stop();
+    expect(await store.get('balances', '1')).toEqual({ accountId: '1', balance: 30 });
+  });
+
+  it('should discard the writes of a failing handler and report the failure', async () => {
+    await writer.appendEvents('account-1', [opened('1'), deposited('1', -5)]);
+    const projection = new Projection<AccountEvent>(client, { name: 'balances', source: { category: 'account' }, handlers, store });
+
+    await expect(projection.start()).rejects.toThrow('Invalid deposit of -5');
+
+    const [openedEvent] = await client.readStream('account-1').toArray();
+    expect(projection.status()).toEqual(expect.objectContaining({ state: 'failed', error: 'Invalid deposit of -5', eventsHandled: 1 }));
+    expect(await store.loadCheckpoint('balances')).toEqual({ position: openedEvent.event!.position });
+    expect(await store.get('balances', '1')).toEqual({ accountId: '1', balance: 0 });
+  });
+});
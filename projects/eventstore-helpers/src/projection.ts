@@ -0,0 +1,388 @@
+/**
+ * Projection builds a read model from events with typed handlers per event type.
+ *
+ * Features:
+ * - Reads a stream, a category or $all through a SubscriptionHelper, with migrations, decryption
+ *   and validation applied
+ * - Handlers read and write documents through a ReadModelTransaction; the writes of a batch of
+ *   events are committed with the projection's checkpoint in one ReadModelStore commit
+ * - Lifecycle controls: start, stop, pause, resume and status
+ * - Replays of the existing events with partitions handled in parallel, used by ProjectionRunner
+ *   to rebuild read models
+ *
+ * Writes of an event whose handler throws are discarded, and the projection stops with the
+ * checkpoint before that event.
+ */
+import { BaseEvent, Checkpoint, CheckpointStore, EnvelopedEvent, EventEnvelope, EventStoreClient, JSONType, ReadModelChange, ReadModelStore, ReadPipelineConfig } from './types';
+import { EventHandler, EventHandlers, SourceEvent, Subscription, SubscriptionHelper, SubscriptionSource } from './subscriptionHelper';
+import { causedBy, runWithMetadataContext } from './metadataContext';
+import { Logger, noopLogger } from './logger';
+
+// Reads and writes of one projection handler; reads see the writes not yet committed
+export interface ReadModelTransaction {
+  get<T extends JSONType = JSONType>(collection: string, id: string): Promise<T | null>;
+  set<T extends JSONType = JSONType>(collection: string, id: string, document: T): void;
+  delete(collection: string, id: string): void;
+}
+
+export type ProjectionHandler<E extends BaseEvent> = (
+  event: E,
+  readModel: ReadModelTransaction,
+  envelope: EventEnvelope
+) => void | Promise<void>;
+
+export type ProjectionHandlers<E extends BaseEvent> = {
+  [T in E['type']]?: ProjectionHandler<Extract<E, { type: T }>>;
+};
+
+export type ProjectionState = 'stopped' | 'replaying' | 'catching-up' | 'live' | 'paused' | 'failed';
+
+export type ProjectionStatus = {
+  name: string;
+  state: ProjectionState;
+  // Checkpoint of the last commit
+  checkpoint: Checkpoint | null;
+  // Events handled since the projection was created
+  eventsHandled: number;
+  // Message of the handler error that stopped the projection
+  error?: string;
+};
+
+export interface ReplayOptions {
+  // Number of partitions whose events are handled concurrently, defaults to 1
+  parallelism?: number;
+  // Partition of an event, defaults to its stream. Events of one partition are handled in order,
+  // so handlers of different partitions must not write the same documents.
+  partitionBy?: (envelope: EventEnvelope) => string;
+  // Number of events read per commit, defaults to 500
+  batchSize?: number;
+  // Called after each commit; the replay waits for a returned promise
+  onProgress?: (progress: ReplayProgress) => void | Promise<void>;
+}
+
+export type ReplayProgress = {
+  projection: string;
+  // Events read from the source by this replay
+  eventsReplayed: number;
+  // Checkpoint of the last commit
+  checkpoint: Checkpoint | null;
+};
+
+type ProjectionConfig<E extends BaseEvent> = ReadPipelineConfig<E> & {
+  // Name of the projection, used as the ID of its checkpoint
+  name: string;
+  source: SubscriptionSource;
+  handlers: ProjectionHandlers<E>;
+  store: ReadModelStore;
+  // Collections the projection writes, deleted when it is reset
+  collections?: string[];
+  // Number of handled events committed together, defaults to 1
+  batchSize?: number;
+};
+
+export class Projection<E extends BaseEvent> {
+  private client: EventStoreClient;
+  private config: ProjectionConfig<E>;
+  private logger: Logger;
+  private subscriptions: SubscriptionHelper<E>;
+  private subscription: Subscription | null = null;
+  private state: ProjectionState = 'stopped';
+  private checkpoint: Checkpoint | null = null;
+  private eventsHandled = 0;
+  private error?: string;
+  // Writes of the handled events not committed yet, in order
+  private pending: ReadModelChange[] = [];
+
+  constructor(client: EventStoreClient, config: ProjectionConfig<E>) {
+    this.client = client;
+    this.config = config;
+    this.logger = config.logger ?? noopLogger;
+    this.subscriptions = new SubscriptionHelper<E>(client, { ...config, checkpointStore: this.createCheckpointStore() });
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get store(): ReadModelStore {
+    return this.config.store;
+  }
+
+  /**
+   * Creates a stopped copy of this projection writing to another store, such as the shadow store
+   * of a blue/green rebuild.
+   *
+   * @param store - The store the copy writes to
+   */
+  withStore(store: ReadModelStore): Projection<E> {
+    return new Projection<E>(this.client, { ...this.config, store });
+  }
+
+  /**
+   * Starts the projection from its checkpoint. Does nothing when it is already running.
+   *
+   * @returns Promise resolving once the projection has caught up with the source, or rejecting
+   * when a handler fails before that
+   */
+  async start(): Promise<void> {
+    if (this.subscription) {
+      return this.subscription.caughtUp;
+    }
+
+    this.checkpoint = await this.config.store.loadCheckpoint(this.config.name);
+    this.state = 'catching-up';
+    this.error = undefined;
+    const subscription = this.subscriptions.subscribe({
+      subscriptionId: this.config.name,
+      source: this.config.source,
+      handlers: this.createHandlers(),
+      checkpointEvery: this.config.batchSize,
+    });
+    this.subscription = subscription;
+
+    subscription.done.catch(error => this.fail(subscription, error));
+
+    try {
+      await subscription.caughtUp;
+    } catch (error) {
+      this.fail(subscription, error);
+      throw error;
+    }
+    if (this.subscription === subscription && this.state === 'catching-up') {
+      this.state = 'live';
+    }
+  }
+
+  /**
+   * Stops the projection after committing the handled events.
+   */
+  async stop(): Promise<void> {
+    await this.halt('stopped');
+  }
+
+  /**
+   * Stops delivering events, committing the handled ones, until resume is called.
+   */
+  async pause(): Promise<void> {
+    if (this.subscription) {
+      await this.halt('paused');
+    }
+  }
+
+  /**
+   * Continues a paused projection from its checkpoint.
+   *
+   * @returns Promise resolving once the projection has caught up again
+   */
+  async resume(): Promise<void> {
+    if (this.state === 'paused') {
+      await this.start();
+    }
+  }
+
+  /**
+   * Deletes the projection's collections and checkpoint, so its next start or replay begins at
+   * the start of the source.
+   *
+   * @throws {Error} If the projection is running
+   */
+  async reset(): Promise<void> {
+    this.assertIdle('reset');
+    await this.config.store.reset(this.config.name, this.config.collections ?? []);
+    this.checkpoint = null;
+    this.error = undefined;
+    this.pending = [];
+    this.logger.info('Reset projection', { projection: this.config.name });
+  }
+
+  /**
+   * Handles the events after the committed checkpoint, up to the end of the source, without
+   * subscribing. The events of each batch are split into partitions that are handled
+   * concurrently, and the batch is committed with its checkpoint once every partition has been
+   * handled. A handler error discards the writes of its batch and fails the projection.
+   * Call start afterwards to continue live from the last commit.
+   *
+   * @param options - Parallelism, partitioning, batch size and progress callback
+   * @returns Promise resolving to the progress after the last commit
+   * @throws {Error} If the projection is running
+   */
+  async replay(options: ReplayOptions = {}): Promise<ReplayProgress> {
+    this.assertIdle('replayed');
+    const batchSize = options.batchSize ?? 500;
+    const progress: ReplayProgress = {
+      projection: this.config.name,
+      eventsReplayed: 0,
+      checkpoint: await this.config.store.loadCheckpoint(this.config.name),
+    };
+    this.checkpoint = progress.checkpoint;
+    this.state = 'replaying';
+    this.error = undefined;
+
+    const handleBatch = async (batch: SourceEvent<E>[]) => {
+      await this.handleInPartitions(batch, options);
+      const checkpoint = batch[batch.length - 1].checkpoint;
+      await this.commit(checkpoint);
+      progress.eventsReplayed += batch.length;
+      progress.checkpoint = checkpoint;
+      await options.onProgress?.({ ...progress });
+    };
+
+    try {
+      let batch: SourceEvent<E>[] = [];
+      for await (const sourceEvent of this.subscriptions.readSource(this.config.source, progress.checkpoint)) {
+        batch.push(sourceEvent);
+        if (batch.length >= batchSize) {
+          await handleBatch(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        await handleBatch(batch);
+      }
+    } catch (error) {
+      this.pending = [];
+      this.state = 'failed';
+      this.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+
+    this.state = 'stopped';
+    this.logger.info('Replayed projection', { ...progress });
+    return progress;
+  }
+
+  status(): ProjectionStatus {
+    return {
+      name: this.config.name,
+      state: this.state,
+      checkpoint: this.checkpoint,
+      eventsHandled: this.eventsHandled,
+      ...this.error !== undefined && { error: this.error },
+    };
+  }
+
+  private assertIdle(action: string): void {
+    if (this.subscription || this.state === 'replaying') {
+      throw new Error(`Projection ${this.config.name} is running and cannot be ${action}`);
+    }
+  }
+
+  private fail(subscription: Subscription, error: unknown): void {
+    if (this.subscription !== subscription) return;
+    this.subscription = null;
+    this.state = 'failed';
+    this.error = error instanceof Error ? error.message : String(error);
+  }
+
+  private async halt(state: ProjectionState): Promise<void> {
+    const subscription = this.subscription;
+    this.subscription = null;
+    await subscription?.stop();
+    if (this.state !== 'failed') {
+      this.state = state;
+    }
+    this.logger.info('Halted projection', { projection: this.config.name, state: this.state });
+  }
+
+  /**
+   * Wraps each handler so its writes join the pending batch only when it succeeds.
+   */
+  private createHandlers(): EventHandlers<E> {
+    const handlers: Record<string, EventHandler<E>> = {};
+    for (const [type, handler] of Object.entries(this.config.handlers) as [string, ProjectionHandler<E>][]) {
+      handlers[type] = (event, envelope) => this.handle(handler, event, envelope);
+    }
+    return handlers as unknown as EventHandlers<E>;
+  }
+
+  private async handle(handler: ProjectionHandler<E>, event: E, envelope: EventEnvelope): Promise<void> {
+    const changes: ReadModelChange[] = [];
+    await handler(event, this.createTransaction(changes), envelope);
+    this.pending.push(...changes);
+    this.eventsHandled++;
+  }
+
+  /**
+   * Handles a batch of replayed events, running up to `parallelism` partitions at once. After a
+   * failure no further partitions are started, and the error is thrown once the running ones end.
+   */
+  private async handleInPartitions(batch: SourceEvent<E>[], options: ReplayOptions): Promise<void> {
+    const partitionBy = options.partitionBy ?? (envelope => envelope.streamId);
+    const partitions = new Map<string, EnvelopedEvent<E>[]>();
+    for (const { event, envelope } of batch.flatMap(sourceEvent => sourceEvent.events)) {
+      const key = partitionBy(envelope);
+      const partition = partitions.get(key);
+      if (partition) {
+        partition.push({ event, envelope });
+      } else {
+        partitions.set(key, [{ event, envelope }]);
+      }
+    }
+
+    const queue = [...partitions.values()];
+    const errors: unknown[] = [];
+    const worker = async () => {
+      for (let events = queue.shift(); events && errors.length === 0; events = queue.shift()) {
+        try {
+          for (const { event, envelope } of events) {
+            const handler = this.config.handlers[event.type as E['type']] as ProjectionHandler<E> | undefined;
+            if (handler) {
+              await runWithMetadataContext(causedBy(envelope), () => this.handle(handler, event, envelope));
+            }
+          }
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+    };
+    const workers = Math.max(1, Math.min(options.parallelism ?? 1, queue.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  /**
+   * Commits the pending writes with a checkpoint. Writes added while the commit is in flight stay
+   * pending for the next one.
+   */
+  private async commit(checkpoint: Checkpoint): Promise<void> {
+    const changes = this.pending;
+    await this.config.store.commit(this.config.name, changes, checkpoint);
+    this.pending = this.pending.slice(changes.length);
+    this.checkpoint = checkpoint;
+    this.logger.debug('Committed projection', { projection: this.config.name, changes: changes.length });
+  }
+
+  private createTransaction(changes: ReadModelChange[]): ReadModelTransaction {
+    return {
+      get: async <T extends JSONType = JSONType>(collection: string, id: string) => {
+        const latest = [...this.pending, ...changes]
+          .reverse()
+          .find(change => change.collection === collection && change.id === id);
+        if (latest) {
+          return latest.type === 'set' ? structuredClone(latest.document) as T : null;
+        }
+        return this.config.store.get<T>(collection, id);
+      },
+      set: (collection, id, document) => {
+        changes.push({ type: 'set', collection, id, document: structuredClone(document) });
+      },
+      delete: (collection, id) => {
+        changes.push({ type: 'delete', collection, id });
+      },
+    };
+  }
+
+  /**
+   * Checkpoints of the subscription are saved by committing the pending writes with them.
+   */
+  private createCheckpointStore(): CheckpointStore {
+    const { store } = this.config;
+    return {
+      load: subscriptionId => store.loadCheckpoint(subscriptionId),
+      save: (_subscriptionId, checkpoint) => this.commit(checkpoint),
+      delete: subscriptionId => store.reset(subscriptionId, this.config.collections ?? []),
+    };
+  }
+}
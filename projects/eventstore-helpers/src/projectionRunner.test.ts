@@ -0,0 +1,123 @@
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { Projection, ProjectionHandlers, ReplayProgress } from './projection';
+import { ProjectionRunner } from './projectionRunner';
+import { InMemoryReadModelStore, SwappableReadModelStore } from './readModelStores';
+import { StreamHelper } from './streamHelpers';
+import { BaseEvent, ReadModelStore } from './types';
+
+interface AccountOpened extends BaseEvent<'AccountOpened', { accountId: string }> { }
+interface MoneyDeposited extends BaseEvent<'MoneyDeposited', { accountId: string; amount: number }> { }
+type AccountEvent = AccountOpened | MoneyDeposited;
+
+type Balance = { accountId: string; balance: number };
+
+const handlers: ProjectionHandlers<AccountEvent> = {
+  AccountOpened: (event, readModel) => {
+    readModel.set<Balance>('balances', event.data.accountId, { accountId: event.data.accountId, balance: 0 });
+  },
+  MoneyDeposited: async (event, readModel) => {
+    if (event.data.amount <= 0) throw new Error(`Invalid deposit of ${event.data.amount}`);
+    const current = await readModel.get<Balance>('balances', event.data.accountId);
+    readModel.set<Balance>('balances', event.data.accountId, { ...current!, balance: current!.balance + event.data.amount });
+  },
+};
+
+describe('ProjectionRunner', () => {
+  let client: InMemoryEventStore;
+  let writer: StreamHelper<any, AccountEvent>;
+  const runner = new ProjectionRunner();
+
+  const opened = (accountId: string): AccountOpened => ({ type: 'AccountOpened', data: { accountId } });
+  const deposited = (accountId: string, amount: number): MoneyDeposited => ({ type: 'MoneyDeposited', data: { accountId, amount } });
+  const balancesProjection = (store: ReadModelStore) => new Projection<AccountEvent>(client, {
+    name: 'balances',
+    source: { category: 'account' },
+    handlers,
+    store,
+    collections: ['balances'],
+  });
+
+  beforeEach(async () => {
+    client = new InMemoryEventStore();
+    writer = new StreamHelper<any, AccountEvent>(client, {});
+    for (const accountId of ['1', '2', '3']) {
+      await writer.appendEvents(`account-${accountId}`, [opened(accountId), deposited(accountId, 10), deposited(accountId, 5)]);
+    }
+  });
+
+  it('should reset and replay in parallel batches, then go live without a gap', async () => {
+    const store = new InMemoryReadModelStore();
+    await store.commit('balances', [{ type: 'set', collection: 'balances', id: 'stale', document: { balance: 99 } }], { position: { commit: BigInt(0), prepare: BigInt(0) } });
+    const projection = balancesProjection(store);
+    const progress: ReplayProgress[] = [];
+
+    const result = await runner.rebuild(projection, {
+      parallelism: 3,
+      batchSize: 4,
+      onProgress: async update => {
+        progress.push(update);
+        if (progress.length === 1) {
+          await writer.appendEvents('account-1', [deposited('1', 100)]);
+        }
+      },
+    });
+
+    expect(progress.map(update => update.eventsReplayed)).toEqual([4, 8, 9]);
+    expect(result).toEqual(expect.objectContaining({ projection: 'balances', eventsReplayed: 9 }));
+    expect(projection.status().state).toBe('live');
+
+    await writer.appendEvents('account-2', [deposited('2', 1)]);
+    await projection.stop();
+    expect(await store.list('balances')).toEqual([
+      { accountId: '1', balance: 115 },
+      { accountId: '2', balance: 16 },
+      { accountId: '3', balance: 15 },
+    ]);
+  });
+
+  it('should fail the rebuild and keep the last committed batch when a handler throws', async () => {
+    await writer.appendEvents('account-3', [deposited('3', -1)]);
+    const store = new InMemoryReadModelStore();
+    const projection = balancesProjection(store);
+
+    await expect(runner.rebuild(projection, { parallelism: 2, batchSize: 9 })).rejects.toThrow('Invalid deposit of -1');
+
+    expect(projection.status()).toEqual(expect.objectContaining({ state: 'failed', error: 'Invalid deposit of -1' }));
+    expect(await store.list('balances')).toHaveLength(3);
+    expect(await store.get('balances', '3')).toEqual({ accountId: '3', balance: 15 });
+  });
+
+  it('should rebuild into a shadow store while serving the old read model, then swap', async () => {
+    const primary = new InMemoryReadModelStore();
+    const store = new SwappableReadModelStore(primary);
+    const projection = balancesProjection(store);
+    await projection.start();
+    await primary.commit('balances', [{ type: 'set', collection: 'balances', id: '1', document: { accountId: '1', balance: -1 } }], projection.status().checkpoint!);
+
+    const shadow = new InMemoryReadModelStore();
+    const served: unknown[] = [];
+    await runner.rebuild(projection, {
+      shadowStore: shadow,
+      batchSize: 2,
+      onProgress: async () => {
+        served.push(await store.get('balances', '1'));
+      },
+    });
+
+    expect(served.every(document => (document as Balance).balance === -1)).toBe(true);
+    expect(store.current).toBe(shadow);
+    expect(await store.get('balances', '1')).toEqual({ accountId: '1', balance: 15 });
+
+    await writer.appendEvents('account-1', [deposited('1', 5)]);
+    await projection.stop();
+    expect(await shadow.get('balances', '1')).toEqual({ accountId: '1', balance: 20 });
+    expect(await primary.get('balances', '1')).toEqual({ accountId: '1', balance: -1 });
+  });
+
+  it('should refuse a blue/green rebuild of a store that cannot be swapped', async () => {
+    const projection = balancesProjection(new InMemoryReadModelStore());
+
+    await expect(runner.rebuild(projection, { shadowStore: new InMemoryReadModelStore() }))
+      .rejects.toThrow('needs a SwappableReadModelStore');
+  });
+});
@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryReadModelStore, JsonFileReadModelStore } from './readModelStores';
+import { Checkpoint } from './types';
+
+const checkpoint: Checkpoint = { position: { commit: BigInt(7), prepare: BigInt(7) } };
+
+describe('InMemoryReadModelStore', () => {
+  it('should apply changes and the checkpoint together', async () => {
+    const store = new InMemoryReadModelStore();
+
+    await store.commit('balances', [
+      { type: 'set', collection: 'accounts', id: 'a1', document: { balance: 10 } },
+      { type: 'set', collection: 'accounts', id: 'a2', document: { balance: 20 } },
+      { type: 'delete', collection: 'accounts', id: 'a1' },
+    ], checkpoint);
+
+    expect(await store.get('accounts', 'a1')).toBeNull();
+    expect(await store.list('accounts')).toEqual([{ balance: 20 }]);
+    expect(await store.loadCheckpoint('balances')).toEqual(checkpoint);
+  });
+
+  it('should reset the collections and checkpoint of a projection', async () => {
+    const store = new InMemoryReadModelStore();
+    await store.commit('balances', [{ type: 'set', collection: 'accounts', id: 'a1', document: { balance: 10 } }], checkpoint);
+    await store.commit('owners', [{ type: 'set', collection: 'owners', id: 'o1', document: { name: 'Ann' } }], checkpoint);
+
+    await store.reset('balances', ['accounts']);
+
+    expect(await store.list('accounts')).toEqual([]);
+    expect(await store.loadCheckpoint('balances')).toBeNull();
+    expect(await store.get('owners', 'o1')).toEqual({ name: 'Ann' });
+  });
+});
+
+describe('JsonFileReadModelStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'read-models-'));
+    filePath = path.join(directory, 'nested', 'read-models.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist documents and checkpoints across instances', async () => {
+    const store = new JsonFileReadModelStore(filePath);
+    await Promise.all([
+      store.commit('balances', [{ type: 'set', collection: 'accounts', id: 'a1', document: { balance: 10 } }], checkpoint),
+      store.commit('owners', [{ type: 'set', collection: 'owners', id: 'o1', document: { name: 'Ann' } }], { revision: BigInt(3) }),
+    ]);
+
+    const reopened = new JsonFileReadModelStore(filePath);
+    expect(await reopened.get('accounts', 'a1')).toEqual({ balance: 10 });
+    expect(await reopened.get('owners', 'o1')).toEqual({ name: 'Ann' });
+    expect(await reopened.loadCheckpoint('balances')).toEqual(checkpoint);
+    expect(await reopened.loadCheckpoint('owners')).toEqual({ revision: BigInt(3) });
+    expect(await fs.readdir(path.dirname(filePath))).toEqual(['read-models.json']);
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const store = new JsonFileReadModelStore(filePath);
+
+    expect(await store.list('accounts')).toEqual([]);
+    expect(await store.loadCheckpoint('balances')).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * ReadModelStore implementations used by Projection to keep read model documents and checkpoints.
+ *
+ * - InMemoryReadModelStore: for tests and read models rebuilt on every start
+ * - JsonFileReadModelStore: every collection and checkpoint in one local JSON file, rewritten
+ *   atomically on each commit; suited to small read models on a single node
+ * - SwappableReadModelStore: delegates to a store that can be replaced in one step, so readers
+ *   move to a read model rebuilt in a shadow store all at once
+ *
+ * The in-memory and JSON file stores apply a commit's changes and checkpoint together, so a crash
+ * never leaves documents ahead of or behind their checkpoint. SwappableReadModelStore passes each
+ * commit whole to its current store and so keeps the same guarantee.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Checkpoint, JSONType, ReadModelChange, ReadModelStore } from './types';
+import { StoredCheckpoint, fromStoredCheckpoint, toStoredCheckpoint } from './checkpointStores';
+
+// Contents of a read model store: documents as JSON strings per collection, and checkpoints
+type ReadModelState = {
+  collections: Record<string, Record<string, string>>;
+  checkpoints: Record<string, StoredCheckpoint>;
+};
+
+export class InMemoryReadModelStore implements ReadModelStore {
+  protected state: ReadModelState = { collections: {}, checkpoints: {} };
+
+  async get<T extends JSONType = JSONType>(collection: string, id: string): Promise<T | null> {
+    const document = (await this.load()).collections[collection]?.[id];
+    return document !== undefined ? JSON.parse(document) : null;
+  }
+
+  async list<T extends JSONType = JSONType>(collection: string): Promise<T[]> {
+    return Object.values((await this.load()).collections[collection] ?? {}).map(document => JSON.parse(document));
+  }
+
+  async commit(projectionId: string, changes: ReadModelChange[], checkpoint: Checkpoint): Promise<void> {
+    await this.update(state => {
+      const next: ReadModelState = {
+        collections: { ...state.collections },
+        checkpoints: { ...state.checkpoints, [projectionId]: toStoredCheckpoint(checkpoint) },
+      };
+      // Each collection the commit touches is copied once, then changed in place
+      const copied = new Set<string>();
+      for (const change of changes) {
+        if (!copied.has(change.collection)) {
+          next.collections[change.collection] = { ...next.collections[change.collection] };
+          copied.add(change.collection);
+        }
+        const documents = next.collections[change.collection];
+        if (change.type === 'set') {
+          documents[change.id] = JSON.stringify(change.document);
+        } else {
+          delete documents[change.id];
+        }
+      }
+      return next;
+    });
+  }
+
+  async loadCheckpoint(projectionId: string): Promise<Checkpoint | null> {
+    const stored = (await this.load()).checkpoints[projectionId];
+    return stored ? fromStoredCheckpoint(stored) : null;
+  }
+
+  async reset(projectionId: string, collections: string[]): Promise<void> {
+    await this.update(state => {
+      const next: ReadModelState = {
+        collections: { ...state.collections },
+        checkpoints: { ...state.checkpoints },
+      };
+      collections.forEach(collection => delete next.collections[collection]);
+      delete next.checkpoints[projectionId];
+      return next;
+    });
+  }
+
+  protected async load(): Promise<ReadModelState> {
+    return this.state;
+  }
+
+  /**
+   * Replaces the state with the next one built from it. The next state is built aside, so an
+   * update applies all of its changes or none.
+   */
+  protected async update(next: (state: ReadModelState) => ReadModelState): Promise<void> {
+    this.state = next(this.state);
+  }
+}
+
+export class JsonFileReadModelStore extends InMemoryReadModelStore {
+  private filePath: string;
+  private loaded: Promise<void> | null = null;
+  private updates: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - JSON file holding the read models, created with its directory on first commit
+   */
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+  }
+
+  /**
+   * Reads the file once; later reads are served from memory, as this store is the file's only writer.
+   */
+  protected async load(): Promise<ReadModelState> {
+    this.loaded ??= fs.readFile(this.filePath, 'utf8').then(
+      contents => {
+        this.state = JSON.parse(contents);
+      },
+      error => {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          this.loaded = null;
+          throw error;
+        }
+      }
+    );
+    await this.loaded;
+    return this.state;
+  }
+
+  /**
+   * Writes the next state to a temporary file and renames it over the store file, then makes it
+   * the current state. Updates are queued, so each one builds on the previous.
+   */
+  protected async update(next: (state: ReadModelState) => ReadModelState): Promise<void> {
+    const update = this.updates.then(async () => {
+      const state = next(await this.load());
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(state), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+      this.state = state;
+    });
+    this.updates = update.catch(() => undefined);
+    await update;
+  }
+}
+
+export class SwappableReadModelStore implements ReadModelStore {
+  private target: ReadModelStore;
+
+  /**
+   * @param target - The store to delegate to until the first swap
+   */
+  constructor(target: ReadModelStore) {
+    this.target = target;
+  }
+
+  get current(): ReadModelStore {
+    return this.target;
+  }
+
+  /**
+   * Delegates every later call to another store. Calls already made complete on the previous one,
+   * so swap while its projection is paused.
+   *
+   * @param next - The store to delegate to
+   * @returns The previous store
+   */
+  swap(next: ReadModelStore): ReadModelStore {
+    const previous = this.target;
+    this.target = next;
+    return previous;
+  }
+
+  get<T extends JSONType = JSONType>(collection: string, id: string): Promise<T | null> {
+    return this.target.get<T>(collection, id);
+  }
+
+  list<T extends JSONType = JSONType>(collection: string): Promise<T[]> {
+    return this.target.list<T>(collection);
+  }
+
+  commit(projectionId: string, changes: ReadModelChange[], checkpoint: Checkpoint): Promise<void> {
+    return this.target.commit(projectionId, changes, checkpoint);
+  }
+
+  loadCheckpoint(projectionId: string): Promise<Checkpoint | null> {
+    return this.target.loadCheckpoint(projectionId);
+  }
+
+  reset(projectionId: string, collections: string[]): Promise<void> {
+    return this.target.reset(projectionId, collections);
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  anySnapshotPolicy,
+  elapsedTimeSinceLastSnapshot,
+  eventsSinceLastSnapshot,
+  replayDurationExceeds,
+} from './snapshotPolicies';
+import { SnapshotPolicyContext } from './types';
+
+const context = (overrides: Partial<SnapshotPolicyContext> = {}): SnapshotPolicyContext => ({
+  streamId: 'test',
+  version: 12,
+  lastSnapshotVersion: 10,
+  lastSnapshotTimestamp: new Date().toISOString(),
+  eventsSinceLastSnapshot: 2,
+  replayDurationMs: 5,
+  ...overrides,
+});
+
+describe('snapshot policies', () => {
+  it('should snapshot after enough events since the last snapshot', () => {
+    expect(eventsSinceLastSnapshot(5)(context())).toBe(false);
+    expect(eventsSinceLastSnapshot(5)(context({ eventsSinceLastSnapshot: 7 }))).toBe(true);
+  });
+
+  it('should snapshot when the last snapshot is too old', () => {
+    const policy = elapsedTimeSinceLastSnapshot(60_000);
+    const old = new Date(Date.now() - 120_000).toISOString();
+
+    expect(policy(context())).toBe(false);
+    expect(policy(context({ lastSnapshotTimestamp: old }))).toBe(true);
+    expect(policy(context({ lastSnapshotTimestamp: null }))).toBe(true);
+    expect(policy(context({ lastSnapshotTimestamp: old, eventsSinceLastSnapshot: 0 }))).toBe(false);
+  });
+
+  it('should snapshot when replay took too long', () => {
+    expect(replayDurationExceeds(100)(context())).toBe(false);
+    expect(replayDurationExceeds(100)(context({ replayDurationMs: 250 }))).toBe(true);
+  });
+
+  it('should combine policies', () => {
+    const policy = anySnapshotPolicy(eventsSinceLastSnapshot(5), replayDurationExceeds(100));
+
+    expect(policy(context())).toBe(false);
+    expect(policy(context({ replayDurationMs: 250 }))).toBe(true);
+  });
+});
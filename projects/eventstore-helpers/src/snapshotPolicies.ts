@@ -0,0 +1,49 @@
+/**
+ * Built-in snapshot policies. A SnapshotPolicy is a predicate evaluated after each state rebuild;
+ * when it returns true StreamHelper writes a snapshot in the background.
+ */
+import { SnapshotPolicy } from './types';
+
+/**
+ * Snapshots once at least `events` events were replayed on top of the last snapshot.
+ * Unlike a modulo check, a read that crosses the boundary still snapshots.
+ *
+ * @param events - Number of events since the last snapshot
+ */
+export function eventsSinceLastSnapshot(events: number): SnapshotPolicy {
+  return context => context.eventsSinceLastSnapshot >= events;
+}
+
+/**
+ * Snapshots when the last snapshot is older than `ms` and new events were replayed since.
+ *
+ * @param ms - Maximum age of the last snapshot in milliseconds
+ */
+export function elapsedTimeSinceLastSnapshot(ms: number): SnapshotPolicy {
+  return context => {
+    if (context.eventsSinceLastSnapshot === 0) return false;
+    if (!context.lastSnapshotTimestamp) return true;
+    return Date.now() - new Date(context.lastSnapshotTimestamp).getTime() >= ms;
+  };
+}
+
+/**
+ * Snapshots when rebuilding the state took at least `ms`.
+ *
+ * @param ms - Replay duration threshold in milliseconds
+ */
+export function replayDurationExceeds(ms: number): SnapshotPolicy {
+  return context => context.eventsSinceLastSnapshot > 0 && context.replayDurationMs >= ms;
+}
+
+/**
+ * Snapshots when any of the given policies would.
+ *
+ * @param policies - The policies to combine
+ */
+export function anySnapshotPolicy(...policies: SnapshotPolicy[]): SnapshotPolicy {
+  return context => policies.some(policy => policy(context));
+}
+
+// Policy that never snapshots, used when neither a policy nor a frequency is configured
+export const neverSnapshot: SnapshotPolicy = () => false;
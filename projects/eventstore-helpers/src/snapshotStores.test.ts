@@ -0,0 +1,117 @@
+import { jsonEvent } from '@eventstore/db-client';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { EventStoreSnapshotStore, FileSystemSnapshotStore, InMemorySnapshotStore } from './snapshotStores';
+import { Snapshot } from './types';
+
+interface TestState {
+  id: string;
+  value: number;
+  [key: string]: unknown;
+}
+
+const snapshotAt = (version: number): Snapshot<TestState> => ({
+  state: { id: '1', value: version * 10 },
+  version,
+  timestamp: '2025-01-21T07:04:17-05:00',
+});
+
+describe('EventStoreSnapshotStore', () => {
+  let client: InMemoryEventStore;
+  let store: EventStoreSnapshotStore<TestState>;
+
+  beforeEach(() => {
+    client = new InMemoryEventStore();
+    store = new EventStoreSnapshotStore<TestState>(client, { prefix: '-snapshot', maxCount: 2 });
+  });
+
+  it('should return null when no snapshot exists', async () => {
+    expect(await store.load('test-stream')).toBeNull();
+  });
+
+  it('should load the latest snapshot and cap the snapshot stream', async () => {
+    await store.save('test-stream', snapshotAt(5));
+    await store.save('test-stream', snapshotAt(10));
+
+    expect(await store.load('test-stream')).toEqual(snapshotAt(10));
+    expect((await client.getStreamMetadata('test-stream-snapshot')).metadata).toEqual({ maxCount: 2 });
+  });
+
+  it('should cap snapshot streams created without $maxCount, and retry after a failed cap', async () => {
+    await client.appendToStream('old-stream-snapshot', jsonEvent({ type: 'snapshot', data: snapshotAt(1) as any }));
+    await client.setStreamMetadata('old-stream-snapshot', { maxAge: 3600 });
+    const setStreamMetadata = jest.spyOn(client, 'setStreamMetadata').mockRejectedValueOnce(new Error('timeout'));
+
+    await expect(store.save('old-stream', snapshotAt(5))).rejects.toThrow('timeout');
+    await store.save('old-stream', snapshotAt(10));
+    await store.save('old-stream', snapshotAt(15));
+
+    expect(setStreamMetadata).toHaveBeenCalledTimes(2);
+    expect((await client.getStreamMetadata('old-stream-snapshot')).metadata).toEqual({ maxAge: 3600, maxCount: 2 });
+    expect(await store.load('old-stream')).toEqual(snapshotAt(15));
+  });
+
+  it('should delete the snapshot stream', async () => {
+    await store.save('test-stream', snapshotAt(5));
+    await store.delete('test-stream');
+
+    expect(await store.load('test-stream')).toBeNull();
+  });
+});
+
+describe('InMemorySnapshotStore', () => {
+  it('should evict the least recently used snapshot', async () => {
+    const store = new InMemorySnapshotStore<TestState>(2);
+    await store.save('stream-1', snapshotAt(1));
+    await store.save('stream-2', snapshotAt(2));
+    await store.load('stream-1');
+    await store.save('stream-3', snapshotAt(3));
+
+    expect(await store.load('stream-1')).toEqual(snapshotAt(1));
+    expect(await store.load('stream-2')).toBeNull();
+    expect(await store.load('stream-3')).toEqual(snapshotAt(3));
+  });
+
+  it('should not share references with callers', async () => {
+    const store = new InMemorySnapshotStore<TestState>();
+    const snapshot = snapshotAt(1);
+    await store.save('stream-1', snapshot);
+    snapshot.state.value = 999;
+
+    expect((await store.load('stream-1'))?.state.value).toBe(10);
+  });
+});
+
+describe('FileSystemSnapshotStore', () => {
+  let directory: string;
+  let store: FileSystemSnapshotStore<TestState>;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+    store = new FileSystemSnapshotStore<TestState>(path.join(directory, 'nested'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should save, load and delete snapshots', async () => {
+    expect(await store.load('account-1')).toBeNull();
+
+    await store.save('account-1', snapshotAt(5));
+    await store.save('account-1', snapshotAt(10));
+    expect(await store.load('account-1')).toEqual(snapshotAt(10));
+
+    await store.delete('account-1');
+    expect(await store.load('account-1')).toBeNull();
+  });
+
+  it('should encode stream IDs into safe file names', async () => {
+    await store.save('$tx/../account-1', snapshotAt(1));
+
+    const files = await fs.readdir(path.join(directory, 'nested'));
+    expect(files).toEqual([`${encodeURIComponent('$tx/../account-1')}.json`]);
+  });
+});
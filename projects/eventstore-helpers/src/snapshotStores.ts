@@ -0,0 +1,195 @@
+/**
+ * SnapshotStore implementations used by StreamHelper to persist aggregate snapshots.
+ *
+ * - EventStoreSnapshotStore: keeps snapshots in a `${streamId}${prefix}` stream (the default)
+ * - InMemorySnapshotStore: bounded LRU cache, for tests and short-lived processes
+ * - FileSystemSnapshotStore: one JSON file per stream, to keep large snapshots out of the event store
+ */
+import { BACKWARDS, END, StreamNotFoundError } from '@eventstore/db-client';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { EventStoreClient, JSONType, Snapshot, SnapshotStore } from './types';
+import { decodeEvent } from './eventDecoder';
+
+interface EventStoreSnapshotStoreOptions {
+  // Suffix appended to the stream ID to name its snapshot stream
+  prefix?: string;
+  // Number of snapshots kept in a snapshot stream, set as its $maxCount
+  maxCount?: number;
+}
+
+export class EventStoreSnapshotStore<S = JSONType> implements SnapshotStore<S> {
+  private client: EventStoreClient;
+  private options: Required<EventStoreSnapshotStoreOptions>;
+  // Snapshot streams whose $maxCount has been checked by this process
+  private cappedStreams: Set<string> = new Set();
+
+  constructor(client: EventStoreClient, options: EventStoreSnapshotStoreOptions = {}) {
+    this.client = client;
+    this.options = {
+      prefix: options.prefix ?? '-snapshot',
+      maxCount: options.maxCount ?? 1,
+    };
+  }
+
+  /**
+   * Loads the latest snapshot with a single backwards read of the snapshot stream.
+   *
+   * @param streamId - The ID of the main stream
+   * @returns Promise resolving to the latest snapshot or null if none exists
+   */
+  async load(streamId: string): Promise<Snapshot<S> | null> {
+    try {
+      const readStream = this.client.readStream(this.getSnapshotStreamName(streamId), {
+        direction: BACKWARDS,
+        fromRevision: END,
+        maxCount: 1,
+      });
+      for await (const resolvedEvent of readStream) {
+        const event = decodeEvent(resolvedEvent);
+        if (event?.type === 'snapshot') {
+          return event.data as unknown as Snapshot<S>;
+        }
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof StreamNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Appends a snapshot event to the snapshot stream. The first write of this process to a stream
+   * also makes sure its $maxCount is set, so old snapshots are pruned, including in streams
+   * written before the option existed.
+   *
+   * @param streamId - The ID of the main stream
+   * @param snapshot - The snapshot to store
+   */
+  async save(streamId: string, snapshot: Snapshot<S>): Promise<void> {
+    const snapshotStreamName = this.getSnapshotStreamName(streamId);
+    const result = await this.client.appendToStream(snapshotStreamName, [{
+      id: randomUUID(),
+      type: 'snapshot',
+      data: snapshot as unknown as JSONType,
+      metadata: {},
+      contentType: 'application/json' as const,
+    }]);
+
+    if (!this.cappedStreams.has(snapshotStreamName)) {
+      await this.capSnapshotStream(snapshotStreamName, result.nextExpectedRevision === BigInt(0));
+      this.cappedStreams.add(snapshotStreamName);
+    }
+  }
+
+  /**
+   * Deletes the snapshot stream.
+   *
+   * @param streamId - The ID of the main stream
+   */
+  async delete(streamId: string): Promise<void> {
+    await this.client.deleteStream(this.getSnapshotStreamName(streamId));
+  }
+
+  private getSnapshotStreamName(streamId: string): string {
+    return `${streamId}${this.options.prefix}`;
+  }
+
+  /**
+   * Sets $maxCount on a snapshot stream unless it already has it, keeping its other metadata.
+   * A new stream has no metadata, so it is set without reading first.
+   */
+  private async capSnapshotStream(snapshotStreamName: string, isNew: boolean): Promise<void> {
+    const metadata = isNew ? undefined : (await this.client.getStreamMetadata(snapshotStreamName)).metadata;
+    if (metadata?.maxCount === this.options.maxCount) {
+      return;
+    }
+    await this.client.setStreamMetadata(snapshotStreamName, {
+      ...metadata,
+      maxCount: this.options.maxCount,
+    });
+  }
+}
+
+export class InMemorySnapshotStore<S = JSONType> implements SnapshotStore<S> {
+  private snapshots: Map<string, string> = new Map();
+  private maxEntries: number;
+
+  /**
+   * @param maxEntries - Number of streams kept before the least recently used snapshot is evicted
+   */
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async load(streamId: string): Promise<Snapshot<S> | null> {
+    const serialized = this.snapshots.get(streamId);
+    if (serialized === undefined) {
+      return null;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.snapshots.delete(streamId);
+    this.snapshots.set(streamId, serialized);
+    return JSON.parse(serialized) as Snapshot<S>;
+  }
+
+  async save(streamId: string, snapshot: Snapshot<S>): Promise<void> {
+    this.snapshots.delete(streamId);
+    this.snapshots.set(streamId, JSON.stringify(snapshot));
+
+    while (this.snapshots.size > this.maxEntries) {
+      const leastRecentlyUsed = this.snapshots.keys().next().value as string;
+      this.snapshots.delete(leastRecentlyUsed);
+    }
+  }
+
+  async delete(streamId: string): Promise<void> {
+    this.snapshots.delete(streamId);
+  }
+}
+
+export class FileSystemSnapshotStore<S = JSONType> implements SnapshotStore<S> {
+  private directory: string;
+
+  /**
+   * @param directory - Directory holding one `<streamId>.json` file per stream, created on first save
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async load(streamId: string): Promise<Snapshot<S> | null> {
+    try {
+      const contents = await fs.readFile(this.getFilePath(streamId), 'utf8');
+      return JSON.parse(contents) as Snapshot<S>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the snapshot to a temporary file and renames it, so readers never see a partial file.
+   */
+  async save(streamId: string, snapshot: Snapshot<S>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const filePath = this.getFilePath(streamId);
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(streamId: string): Promise<void> {
+    await fs.rm(this.getFilePath(streamId), { force: true });
+  }
+
+  private getFilePath(streamId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(streamId)}.json`);
+  }
+}
@@ -1,5 +1,7 @@
-import { EventStoreDBClient, StreamNotFoundError, StreamingRead, ResolvedEvent, jsonEvent } from '@eventstore/db-client';
+import { ANY, EventStoreDBClient, StreamNotFoundError, StreamingRead, ResolvedEvent, WrongExpectedVersionError, jsonEvent } from '@eventstore/db-client';
 import { StreamHelper } from './streamHelpers';
+import { deterministicEventId } from './eventIds';
+import { InMemorySnapshotStore } from './snapshotStores';
 import { Snapshot, SnapshotEventType, BaseEvent, EventMigration, JSONType } from './types';
 import { EventEmitter } from 'events';
 
@@ -46,6 +48,8 @@ describe('StreamHelper', () => {
     client = {
       readStream: jest.fn(),
       appendToStream: jest.fn().mockResolvedValue({ success: true, nextExpectedRevision: BigInt(1) }),
+      getStreamMetadata: jest.fn().mockResolvedValue({ metadata: undefined }),
+      setStreamMetadata: jest.fn().mockResolvedValue({ success: true, nextExpectedRevision: BigInt(0) }),
     } as any;
     streamHelper = new StreamHelper<TestState, TestEvent>(client, mockConfig);
   });
@@ -97,7 +101,7 @@ describe('StreamHelper', () => {
         eventMigrations: migrations
       });
 
-      const result = await streamHelper['migrateEventIfNeeded'](mockEvent);
+      const [result] = await streamHelper['pipeline'].migrate(mockEvent);
       expect(result.data.value).toBe(11); // (5 * 2) + 1
       expect(result.version).toBe(3);
     });
@@ -124,7 +128,7 @@ describe('StreamHelper', () => {
         eventMigrations: migrations
       });
 
-      const result = await streamHelper['migrateEventIfNeeded'](mockEvent);
+      const [result] = await streamHelper['pipeline'].migrate(mockEvent);
       expect(result).toBe(mockEvent);
       expect(migrations[0].migrate).not.toHaveBeenCalled();
     });
@@ -151,7 +155,7 @@ describe('StreamHelper', () => {
         eventMigrations: migrations
       });
 
-      const result = await streamHelper['migrateEventIfNeeded'](mockEvent);
+      const [result] = await streamHelper['pipeline'].migrate(mockEvent);
       expect(result).toBe(mockEvent);
       expect(migrations[0].migrate).not.toHaveBeenCalled();
     });
@@ -179,6 +183,256 @@ describe('StreamHelper', () => {
     });
   });
 
+  describe('appendEvents', () => {
+    beforeEach(() => {
+      (jsonEvent as jest.Mock).mockImplementation(jest.requireActual('@eventstore/db-client').jsonEvent);
+      client.appendToStream.mockResolvedValue({
+        success: true,
+        nextExpectedRevision: BigInt(4),
+        position: { commit: BigInt(120), prepare: BigInt(118) }
+      });
+    });
+
+    it('should append a batch in a single call and return the append result', async () => {
+      const events: TestEvent[] = [
+        { type: 'valueUpdated', data: { value: 1 } },
+        { type: 'valueUpdated', data: { value: 2 } }
+      ];
+
+      const result = await streamHelper.appendEvents('test', events, { expectedRevision: BigInt(2) });
+
+      expect(client.appendToStream).toHaveBeenCalledTimes(1);
+      const [streamId, eventData, options] = client.appendToStream.mock.calls[0] as any[];
+      expect(streamId).toBe('test');
+      expect(eventData.map((event: any) => event.data)).toEqual([{ value: 1 }, { value: 2 }]);
+      expect(options).toEqual({ expectedRevision: BigInt(2) });
+      expect(result).toEqual({
+        nextExpectedRevision: BigInt(4),
+        position: { commit: BigInt(120), prepare: BigInt(118) },
+        eventIds: eventData.map((event: any) => event.id)
+      });
+    });
+
+    it('should return the append result for a single event', async () => {
+      const result = await streamHelper.appendEvent('test', { type: 'valueUpdated', data: { value: 1 } });
+
+      expect(result.nextExpectedRevision).toBe(BigInt(4));
+      expect(result.eventIds).toHaveLength(1);
+    });
+
+    it('should derive event IDs from the idempotency key or the event id', async () => {
+      const keyed = await streamHelper.appendEvents('test', [
+        { type: 'valueUpdated', data: { value: 1 } },
+        { type: 'valueUpdated', data: { value: 2 } }
+      ], { idempotencyKey: 'command-1' });
+      const single = await streamHelper.appendEvent('test', { type: 'valueUpdated', data: { value: 1 } }, {
+        idempotencyKey: 'command-1'
+      });
+      const ownId = await streamHelper.appendEvent('test', { id: 'event-1', type: 'valueUpdated', data: { value: 1 } });
+
+      expect(keyed.eventIds).toEqual([
+        deterministicEventId('test', 'command-1'),
+        deterministicEventId('test', 'command-1/1')
+      ]);
+      expect(single.eventIds).toEqual([keyed.eventIds[0]]);
+      expect(ownId.eventIds).toEqual([deterministicEventId('test', 'event-1')]);
+    });
+  });
+
+  describe('handleCommand', () => {
+    const events = [{ event: { type: 'valueUpdated', data: { value: 5 }, revision: BigInt(0) } }];
+
+    beforeEach(() => {
+      (jsonEvent as jest.Mock).mockImplementation(jest.requireActual('@eventstore/db-client').jsonEvent);
+      client.readStream.mockImplementation(() => ({
+        [Symbol.asyncIterator]: async function* () {
+          yield* events;
+        }
+      } as any));
+    });
+
+    it('should append decided events at the loaded revision', async () => {
+      const decide = jest.fn((state: TestState | null): TestEvent[] => [
+        { type: 'valueUpdated', data: { value: state!.value } }
+      ]);
+
+      const result = await streamHelper.handleCommand('test', applyEvent, decide);
+
+      expect(decide).toHaveBeenCalledWith(expect.objectContaining({ value: 5 }), 1);
+      expect(client.appendToStream).toHaveBeenCalledWith('test', [expect.objectContaining({
+        type: 'valueUpdated',
+        data: { value: 5 }
+      })], { expectedRevision: BigInt(0) });
+      expect(result.state?.value).toBe(10);
+      expect(result.version).toBe(2);
+      expect(result.attempts).toBe(1);
+    });
+
+    it('should retry on WrongExpectedVersionError', async () => {
+      client.appendToStream
+        .mockRejectedValueOnce(new WrongExpectedVersionError(undefined as any, {} as any))
+        .mockResolvedValueOnce({ success: true, nextExpectedRevision: BigInt(1) });
+      const decide = jest.fn((): TestEvent[] => [{ type: 'valueUpdated', data: { value: 1 } }]);
+
+      const result = await streamHelper.handleCommand('test', applyEvent, decide, { initialDelayMs: 1 });
+
+      expect(decide).toHaveBeenCalledTimes(2);
+      expect(result.attempts).toBe(2);
+      expect(result.appendResult?.nextExpectedRevision).toBe(BigInt(1));
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+      const conflict = new WrongExpectedVersionError(undefined as any, {} as any);
+      client.appendToStream.mockRejectedValue(conflict);
+      const decide = jest.fn((): TestEvent[] => [{ type: 'valueUpdated', data: { value: 1 } }]);
+
+      await expect(streamHelper.handleCommand('test', applyEvent, decide, {
+        maxAttempts: 2,
+        initialDelayMs: 1
+      })).rejects.toBe(conflict);
+      expect(decide).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry errors thrown by decide or append when no events are decided', async () => {
+      const rejecting = jest.fn(() => { throw new Error('Insufficient funds'); });
+      await expect(streamHelper.handleCommand('test', applyEvent, rejecting)).rejects.toThrow('Insufficient funds');
+      expect(rejecting).toHaveBeenCalledTimes(1);
+
+      const result = await streamHelper.handleCommand('test', applyEvent, () => []);
+      expect(result.appendResult).toBeNull();
+      expect(client.appendToStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readStream', () => {
+    const storedEvents = Array(5).fill(null).map((_, i) => ({
+      event: {
+        type: 'valueUpdated',
+        data: { value: i + 1 },
+        revision: BigInt(i)
+      }
+    }));
+
+    beforeEach(() => {
+      client.readStream.mockImplementation(((_: string, options: any = {}) => ({
+        [Symbol.asyncIterator]: async function* () {
+          const backwards = options.direction === 'backwards';
+          const ordered = backwards ? [...storedEvents].reverse() : storedEvents;
+          const from = typeof options.fromRevision === 'bigint' ? options.fromRevision : undefined;
+          const selected = ordered.filter(({ event }) =>
+            from === undefined || (backwards ? event.revision <= from : event.revision >= from));
+          yield* selected.slice(0, options.maxCount ?? selected.length);
+        }
+      })) as any);
+    });
+
+    const collect = async (events: AsyncIterable<TestEvent>) => {
+      const values: number[] = [];
+      for await (const event of events) {
+        values.push(event.data.value);
+      }
+      return values;
+    };
+
+    it('should read events lazily in batches', async () => {
+      const values = await collect(streamHelper.readStream('test', { batchSize: 2 }));
+
+      expect(values).toEqual([1, 2, 3, 4, 5]);
+      expect(client.readStream).toHaveBeenCalledTimes(3);
+      expect(client.readStream).toHaveBeenLastCalledWith('test', expect.objectContaining({
+        fromRevision: BigInt(4),
+        maxCount: 2
+      }));
+    });
+
+    it('should only read as many events as are consumed', async () => {
+      const iterator = streamHelper.readStream('test', { batchSize: 2 });
+      await iterator.next();
+      await iterator.return(undefined);
+
+      expect(client.readStream).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honour direction, revision range and maxCount', async () => {
+      expect(await collect(streamHelper.readStream('test', {
+        fromRevision: BigInt(1),
+        toRevision: BigInt(3)
+      }))).toEqual([2, 3, 4]);
+
+      expect(await collect(streamHelper.readStream('test', {
+        direction: 'backwards',
+        batchSize: 2,
+        maxCount: 3
+      }))).toEqual([5, 4, 3]);
+    });
+
+    it('should apply migrations to yielded events', async () => {
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, {
+        ...mockConfig,
+        eventMigrations: [{
+          fromVersion: 1,
+          toVersion: 2,
+          eventType: 'valueUpdated',
+          migrate: (event: TestEvent) => ({ ...event, data: { value: event.data.value * 10 }, version: 2 })
+        }]
+      });
+
+      expect(await collect(streamHelper.readStream('test', { maxCount: 2 }))).toEqual([10, 20]);
+    });
+
+    it('should apply async migrations that split and drop events', async () => {
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, {
+        ...mockConfig,
+        eventMigrations: [{
+          fromVersion: 1,
+          toVersion: 2,
+          eventType: 'valueUpdated',
+          // Drops even values and splits odd ones in two halves
+          migrate: async (event: TestEvent) => event.data.value % 2 === 0 ? [] : [
+            { ...event, data: { value: event.data.value / 2 } },
+            { ...event, data: { value: event.data.value / 2 } }
+          ]
+        }]
+      });
+
+      expect(await collect(streamHelper.readStream('test', { maxCount: 3 }))).toEqual([0.5, 0.5, 1.5, 1.5]);
+
+      const { state, version } = await streamHelper.getCurrentState('test', applyEvent);
+      expect(state?.value).toBe(9); // 1 + 3 + 5
+      expect(version).toBe(5);
+    });
+  });
+
+  describe('getCurrentState logging', () => {
+    it('should report structured fields to the configured logger', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const consoleLog = jest.spyOn(console, 'log');
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, { ...mockConfig, logger });
+
+      client.readStream.mockImplementation(() => ({
+        [Symbol.asyncIterator]: async function* () {
+          yield { event: { type: 'valueUpdated', data: { value: 5 }, revision: BigInt(0) } };
+        }
+      } as any));
+
+      await streamHelper.getCurrentState('test', applyEvent);
+
+      expect(logger.debug).toHaveBeenCalledWith('Applied event', {
+        streamId: 'test',
+        revision: BigInt(0),
+        eventType: 'valueUpdated',
+        version: 1,
+      });
+      expect(logger.debug).toHaveBeenCalledWith('Rebuilt current state', expect.objectContaining({
+        streamId: 'test',
+        version: 1,
+        durationMs: expect.any(Number),
+      }));
+      expect(consoleLog).not.toHaveBeenCalled();
+      consoleLog.mockRestore();
+    });
+  });
+
   describe('getCurrentState with non-nullable return type', () => {
     it('should return null when stream not found and using non-nullable type', async () => {
       client.readStream.mockImplementation(() => ({
@@ -205,7 +459,8 @@ describe('StreamHelper', () => {
         event: {
           type: 'valueUpdated',
           data: { value: 5 * (i + 1) },
-          version: 1
+          version: 1,
+          revision: BigInt(i)
         }
       }));
 
@@ -224,6 +479,7 @@ describe('StreamHelper', () => {
       });
 
       await streamHelper.getCurrentState('test', applyEvent);
+      await streamHelper.flushSnapshots();
 
       const calls = client.appendToStream.mock.calls;
       expect(calls.length).toBe(1);
@@ -239,7 +495,9 @@ describe('StreamHelper', () => {
           timestamp: expect.any(String)
         },
         version: 5,
-        timestamp: expect.any(String)
+        revision: '4',
+        timestamp: expect.any(String),
+        schemaVersion: 1
       });
     });
 
@@ -270,6 +528,10 @@ describe('StreamHelper', () => {
   });
 
   describe('multi-stream operations', () => {
+    beforeEach(() => {
+      (jsonEvent as jest.Mock).mockImplementation(jest.requireActual('@eventstore/db-client').jsonEvent);
+    });
+
     it('should append events to transaction stream', async () => {
       const streamEvents = [
         {
@@ -375,7 +637,7 @@ describe('StreamHelper', () => {
           metadata: expect.any(Object),
           contentType: 'application/json'
         })],
-        { expectedRevision: BigInt(0) }
+        { expectedRevision: ANY }
       );
 
       expect(client.appendToStream).toHaveBeenCalledWith(
@@ -386,7 +648,7 @@ describe('StreamHelper', () => {
           metadata: expect.any(Object),
           contentType: 'application/json'
         })],
-        { expectedRevision: BigInt(0) }
+        { expectedRevision: ANY }
       );
 
       expect(client.appendToStream).toHaveBeenCalledWith(
@@ -446,6 +708,180 @@ describe('StreamHelper', () => {
     });
   });
 
+  describe('snapshot policies', () => {
+    const streamOf = (count: number) => ((_: string, options: any = {}) => ({
+      [Symbol.asyncIterator]: async function* () {
+        const from = typeof options.fromRevision === 'bigint' ? Number(options.fromRevision) : 0;
+        for (let i = from; i < count; i++) {
+          yield { event: { type: 'valueUpdated', data: { value: 1 }, revision: BigInt(i) } };
+        }
+      }
+    })) as any;
+
+    it('should snapshot when a read crosses the frequency boundary', async () => {
+      const snapshotStore = new InMemorySnapshotStore();
+      await snapshotStore.save('test', {
+        state: { id: '1', value: 3, timestamp: '2025-01-21T07:04:17-05:00' },
+        version: 3,
+        timestamp: new Date().toISOString(),
+        schemaVersion: 1
+      });
+      client.readStream.mockImplementation(streamOf(9));
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, { ...mockConfig, snapshotStore });
+
+      await streamHelper.getCurrentState('test', applyEvent);
+      await streamHelper.flushSnapshots();
+
+      expect((await snapshotStore.load('test'))?.version).toBe(9);
+    });
+
+    it('should pass the replay context to a custom policy', async () => {
+      const snapshotPolicy = jest.fn().mockReturnValue(false);
+      const snapshotStore = new InMemorySnapshotStore();
+      client.readStream.mockImplementation(streamOf(2));
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, {
+        ...mockConfig,
+        snapshotStore,
+        snapshotPolicy
+      });
+
+      await streamHelper.getCurrentState('test', applyEvent);
+      await streamHelper.flushSnapshots();
+
+      expect(snapshotPolicy).toHaveBeenCalledWith({
+        streamId: 'test',
+        version: 2,
+        lastSnapshotVersion: 0,
+        lastSnapshotTimestamp: null,
+        eventsSinceLastSnapshot: 2,
+        replayDurationMs: expect.any(Number)
+      });
+      expect(await snapshotStore.load('test')).toBeNull();
+    });
+
+    it('should not wait for snapshot writes and log failures', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      let rejectSave: (error: Error) => void = () => undefined;
+      const snapshotStore = {
+        load: jest.fn().mockResolvedValue(null),
+        save: jest.fn(() => new Promise<void>((_, reject) => { rejectSave = reject; })),
+        delete: jest.fn()
+      };
+      client.readStream.mockImplementation(streamOf(5));
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, {
+        ...mockConfig,
+        snapshotStore,
+        logger
+      });
+
+      const result = await streamHelper.getCurrentState('test', applyEvent);
+      expect(result.version).toBe(5);
+      expect(snapshotStore.save).toHaveBeenCalledTimes(1);
+
+      rejectSave(new Error('Snapshot store unavailable'));
+      await streamHelper.flushSnapshots();
+
+      expect(logger.warn).toHaveBeenCalledWith('Failed to create snapshot', {
+        streamId: 'test',
+        version: 5,
+        error: 'Snapshot store unavailable'
+      });
+    });
+
+    it('should snapshot a copy of the state returned to the caller', async () => {
+      const snapshotStore = new InMemorySnapshotStore();
+      client.readStream.mockImplementation(streamOf(5));
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, { ...mockConfig, snapshotStore });
+
+      const { state } = await streamHelper.getCurrentState('test', applyEvent);
+      state!.value = -1;
+      await streamHelper.flushSnapshots();
+
+      expect((await snapshotStore.load('test'))?.state).toEqual(expect.objectContaining({ value: 5 }));
+    });
+
+    it('should not snapshot or log a snapshot of a null state', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const snapshotStore = new InMemorySnapshotStore();
+      client.readStream.mockImplementation(streamOf(5));
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, { ...mockConfig, snapshotStore, logger });
+
+      await streamHelper.getCurrentState('test', () => null as any);
+      await streamHelper.flushSnapshots();
+
+      expect(await snapshotStore.load('test')).toBeNull();
+      expect(logger.info).not.toHaveBeenCalledWith('Created snapshot', expect.anything());
+    });
+  });
+
+  describe('snapshot schema versioning', () => {
+    const mockEvents = Array(3).fill(null).map((_, i) => ({
+      event: {
+        type: 'valueUpdated',
+        data: { value: 1 },
+        revision: BigInt(i)
+      }
+    }));
+
+    beforeEach(() => {
+      client.readStream.mockImplementation(((_: string, options: any = {}) => ({
+        [Symbol.asyncIterator]: async function* () {
+          const from = typeof options.fromRevision === 'bigint' ? Number(options.fromRevision) : 0;
+          yield* mockEvents.slice(from);
+        }
+      })) as any);
+    });
+
+    const staleSnapshot = {
+      state: { id: '1', total: 100, timestamp: '2025-01-21T07:04:17-05:00' },
+      version: 2,
+      timestamp: '2025-01-21T07:04:17-05:00'
+    };
+
+    it('should discard snapshots with another schema version and write a fresh one', async () => {
+      const snapshotStore = new InMemorySnapshotStore();
+      await snapshotStore.save('test', staleSnapshot);
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, {
+        ...mockConfig,
+        snapshotStore,
+        snapshotSchemaVersion: 2
+      });
+
+      const result = await streamHelper.getCurrentState('test', applyEvent);
+      await streamHelper.flushSnapshots();
+
+      expect(result).toEqual({ state: expect.objectContaining({ value: 3 }), version: 3 });
+      expect(await snapshotStore.load('test')).toEqual(expect.objectContaining({
+        version: 3,
+        schemaVersion: 2,
+        state: expect.objectContaining({ value: 3 })
+      }));
+    });
+
+    it('should upcast snapshots with an upcaster', async () => {
+      const snapshotStore = new InMemorySnapshotStore();
+      await snapshotStore.save('test', staleSnapshot);
+      const snapshotUpcaster = jest.fn((snapshot: any) => ({
+        ...snapshot,
+        state: { id: snapshot.state.id, value: snapshot.state.total, timestamp: snapshot.state.timestamp },
+        schemaVersion: 2
+      }));
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, {
+        ...mockConfig,
+        snapshotStore,
+        snapshotSchemaVersion: 2,
+        snapshotUpcaster
+      });
+
+      const result = await streamHelper.getCurrentState('test', applyEvent);
+      await streamHelper.flushSnapshots();
+
+      expect(snapshotUpcaster).toHaveBeenCalledWith(staleSnapshot);
+      expect(result).toEqual({ state: expect.objectContaining({ value: 101 }), version: 3 });
+      expect(await snapshotStore.load('test')).toEqual(expect.objectContaining({ version: 3, schemaVersion: 2 }));
+    });
+  });
+
   describe('snapshot operations', () => {
     it('should create snapshot with correct data', async () => {
       const state: TestState = {
@@ -456,7 +892,7 @@ describe('StreamHelper', () => {
       const version = 5;
       const streamId = 'test-stream';
 
-      await streamHelper['createSnapshot'](streamId, state, version);
+      await streamHelper['createSnapshot'](streamId, state, version, BigInt(4));
 
       expect(client.appendToStream).toHaveBeenCalledWith(
         'test-stream-snapshot',
@@ -465,6 +901,7 @@ describe('StreamHelper', () => {
           data: expect.objectContaining({
             state,
             version,
+            revision: '4',
             timestamp: expect.any(String)
           }),
           metadata: expect.any(Object),
@@ -473,8 +910,60 @@ describe('StreamHelper', () => {
       );
     });
 
+    it('should set $maxCount on the first write to a snapshot stream', async () => {
+      const state: TestState = { id: '1', value: 100, timestamp: '2025-01-21T07:04:17-05:00' };
+      client.appendToStream.mockResolvedValueOnce({ success: true, nextExpectedRevision: BigInt(0) });
+
+      await streamHelper['createSnapshot']('test-stream', state, 5, BigInt(4));
+      await streamHelper['createSnapshot']('test-stream', state, 10, BigInt(9));
+
+      expect(client.setStreamMetadata).toHaveBeenCalledTimes(1);
+      expect(client.setStreamMetadata).toHaveBeenCalledWith('test-stream-snapshot', { maxCount: 1 });
+    });
+
+    it('should read only the latest snapshot backwards', async () => {
+      const snapshot = { state: { id: '1', value: 100 }, version: 10, timestamp: '2025-01-21T07:04:17-05:00' };
+      client.readStream.mockImplementation(() => ({
+        [Symbol.asyncIterator]: async function* () {
+          yield { event: { type: 'snapshot', data: snapshot, revision: BigInt(1) } };
+        }
+      } as any));
+
+      const result = await streamHelper.getLatestSnapshot('test-stream');
+
+      expect(result).toEqual(snapshot);
+      expect(client.readStream).toHaveBeenCalledWith('test-stream-snapshot', {
+        direction: 'backwards',
+        fromRevision: 'end',
+        maxCount: 1
+      });
+    });
+
+    it('should use an injected snapshot store', async () => {
+      const snapshotStore = {
+        load: jest.fn().mockResolvedValue(null),
+        save: jest.fn().mockResolvedValue(undefined),
+        delete: jest.fn(),
+      };
+      const streamHelper = new StreamHelper<TestState, TestEvent>(client, { ...mockConfig, snapshotStore });
+      const state: TestState = { id: '1', value: 100, timestamp: '2025-01-21T07:04:17-05:00' };
+
+      await streamHelper['createSnapshot']('test-stream', state, 5, BigInt(4));
+      await streamHelper.getLatestSnapshot('test-stream');
+
+      expect(snapshotStore.save).toHaveBeenCalledWith('test-stream', {
+        state,
+        version: 5,
+        revision: '4',
+        timestamp: expect.any(String),
+        schemaVersion: 1
+      });
+      expect(snapshotStore.load).toHaveBeenCalledWith('test-stream');
+      expect(client.appendToStream).not.toHaveBeenCalled();
+    });
+
     it('should not create snapshot for null state', async () => {
-      await streamHelper['createSnapshot']('test-stream', null, 5);
+      await streamHelper['createSnapshot']('test-stream', null, 5, BigInt(4));
       expect(client.appendToStream).not.toHaveBeenCalled();
     });
   });
@@ -8,21 +8,76 @@
  * - Stream reading with optional snapshot support
  * - Type-safe event handling with generics
  */
-import { EventStoreDBClient, START, ResolvedEvent, StreamNotFoundError, jsonEvent } from '@eventstore/db-client';
-import { JSONType, BaseEvent, Snapshot } from './types';
+import {
+  ANY,
+  BACKWARDS,
+  END,
+  NO_STREAM,
+  START,
+  CancelledError,
+  DeadlineExceededError,
+  Direction,
+  ReadRevision,
+  ResolvedEvent,
+  StreamNotFoundError,
+  EventData,
+  TimeoutError,
+  UnavailableError,
+  WrongExpectedVersionError,
+} from '@eventstore/db-client';
+import { JSONType, BaseEvent, AppendEventsResult, AppendOptions, ApplyEvent, CommandResult, EnvelopedEvent, EventEnvelope, RetryOptions, Snapshot, SnapshotStore, StreamConfig, EventStoreClient } from './types';
+import { EventStoreSnapshotStore } from './snapshotStores';
+import { deterministicEventId } from './eventIds';
+import { EventMigrationRegistry } from './migrationRegistry';
+import { encodeEventData, jsonCodec } from './eventCodecs';
+import { FieldEncryption } from './fieldEncryption';
+import { MetadataContext, causedBy, getMetadataContext, stampMetadata } from './metadataContext';
+import { EventValidationError } from './eventValidation';
+import { EventReadPipeline } from './eventReadPipeline';
+import { eventsSinceLastSnapshot, neverSnapshot } from './snapshotPolicies';
 import { randomUUID } from 'crypto';
 
-interface StreamConfig<E extends BaseEvent> {
-  snapshotFrequency?: number;
-  snapshotPrefix?: string;
-  currentEventVersion?: number;
-  eventMigrations?: EventMigration<E>[];
+const transactionCodec = jsonCodec();
+
+// Errors of an append that may succeed when retried; they leave a transaction pending
+const transientErrors = [UnavailableError, DeadlineExceededError, TimeoutError, CancelledError];
+
+function isTransientError(error: unknown): boolean {
+  return transientErrors.some(type => error instanceof type);
+}
+
+// Reason recorded in TransactionFailed; conflicts raised by the client carry no message
+function describeTransactionError(error: unknown): string {
+  if (error instanceof WrongExpectedVersionError) {
+    return `Stream ${error.streamName} is at revision ${String(error.actualVersion)}, expected ${String(error.expectedVersion)}`;
+  }
+  return error instanceof Error ? error.message : String(error);
 }
 
-interface EventMigration<E extends BaseEvent> {
-  eventType: string;
-  fromVersion: number;
-  migrate: (event: E) => E;
+// Contents of a transaction stream, as read by readTransaction
+type TransactionRecords = {
+  steps: {
+    // Position of the wrapped event among the transaction's events
+    step: number;
+    targetStream: string;
+    event: { type: string; data: JSONType; metadata?: Record<string, unknown>; version?: number };
+    expectedRevision?: bigint;
+    envelope: EventEnvelope;
+  }[];
+  appliedSteps: Set<number>;
+  outcome: { type: 'completed' } | { type: 'failed'; reason: string } | null;
+};
+
+export interface StreamReadOptions {
+  direction?: Direction;
+  fromRevision?: ReadRevision;
+  // Last revision to read (inclusive), in the direction of the read
+  toRevision?: bigint;
+  maxCount?: number;
+  // Reads the stream in pages of this many events instead of a single server-side read
+  batchSize?: number;
+  // Schema version to yield events at, downcasting them after migration
+  schemaVersion?: number;
 }
 
 interface StreamEvent<E extends BaseEvent> {
@@ -32,99 +87,182 @@ interface StreamEvent<E extends BaseEvent> {
 }
 
 export class StreamHelper<S extends JSONType, E extends BaseEvent> {
-  protected client: EventStoreDBClient;
-  private config: Required<StreamConfig<E>>;
+  protected client: EventStoreClient;
+  protected snapshotStore: SnapshotStore;
+  protected pipeline: EventReadPipeline<E>;
+  protected migrations: EventMigrationRegistry<E>;
+  protected fieldEncryption?: FieldEncryption<E>;
+  private pendingSnapshots: Map<string, Promise<void>> = new Map();
+  protected config: Required<Omit<StreamConfig<E>, 'snapshotStore' | 'snapshotUpcaster' | 'eventMigrations' | 'eventValidators' | 'readValidation' | 'fieldEncryption'>> &
+    Pick<StreamConfig<E>, 'snapshotUpcaster'>;
 
   /**
    * Creates a new StreamHelper instance.
    * 
-   * @param client - The EventStoreDB client instance
+   * @param client - The EventStoreDB client instance, or an InMemoryEventStore
    * @param config - The stream configuration
+   * @throws MigrationError when `eventMigrations` contains an invalid chain
    */
-  constructor(client: EventStoreDBClient, config: StreamConfig<E>) {
+  constructor(client: EventStoreClient, config: StreamConfig<E>) {
     this.client = client;
+    this.pipeline = new EventReadPipeline<E>(config);
     this.config = {
       snapshotFrequency: config.snapshotFrequency ?? 0,
+      snapshotPolicy: config.snapshotPolicy ?? (
+        config.snapshotFrequency ? eventsSinceLastSnapshot(config.snapshotFrequency) : neverSnapshot
+      ),
       snapshotPrefix: config.snapshotPrefix ?? '-snapshot',
+      snapshotMaxCount: config.snapshotMaxCount ?? 1,
+      snapshotSchemaVersion: config.snapshotSchemaVersion ?? 1,
+      snapshotUpcaster: config.snapshotUpcaster,
       currentEventVersion: config.currentEventVersion ?? 1,
-      eventMigrations: config.eventMigrations ?? [],
+      legacyEventVersion: config.legacyEventVersion ?? 1,
+      logger: this.pipeline.logger,
+      commandRetry: config.commandRetry ?? {},
+      eventCodec: this.pipeline.codec,
     };
+    this.migrations = this.pipeline.migrations;
+    this.fieldEncryption = config.fieldEncryption;
+    this.snapshotStore = config.snapshotStore ?? new EventStoreSnapshotStore(client, {
+      prefix: this.config.snapshotPrefix,
+      maxCount: this.config.snapshotMaxCount,
+    });
   }
 
   /**
-   * Migrates an event to the latest version if necessary.
+   * Reads raw events from a stream lazily, one page at a time when a batch size is given.
+   * A missing stream yields no events.
    * 
-   * @param event - The event to migrate
-   * @returns Promise resolving to the migrated event
+   * @param streamName - The name of the stream to read from
+   * @param options - The read options
+   * @returns Async iterator over the resolved events
    */
-  private async migrateEventIfNeeded<T extends E>(event: T): Promise<T> {
-    if (!event || !event.type) {
-      return event;
-    }
+  private async *readEvents(streamName: string, options: StreamReadOptions = {}): AsyncGenerator<ResolvedEvent> {
+    const backwards = options.direction === BACKWARDS;
+    const maxCount = options.maxCount ?? Infinity;
+    let fromRevision = options.fromRevision ?? (backwards ? END : START);
+    let remaining = maxCount;
 
-    // Find the next migration for this event type and version
-    const nextMigration = this.config.eventMigrations.find(migration => 
-      migration.eventType === event.type && 
-      migration.fromVersion === (event.version ?? 1)
-    );
+    try {
+      while (remaining > 0) {
+        const pageSize = Math.min(options.batchSize ?? remaining, remaining);
+        const readStream = this.client.readStream(streamName, {
+          direction: options.direction,
+          fromRevision,
+          maxCount: Number.isFinite(pageSize) ? pageSize : undefined,
+        });
 
-    if (!nextMigration) {
-      return event;
-    }
+        let read = 0;
+        let lastRevision: bigint | undefined;
+        for await (const resolvedEvent of readStream) {
+          const revision = resolvedEvent.event?.revision;
+          if (options.toRevision !== undefined && revision !== undefined &&
+              (backwards ? revision < options.toRevision : revision > options.toRevision)) {
+            return;
+          }
+          read++;
+          remaining--;
+          lastRevision = revision;
+          yield resolvedEvent;
+        }
 
-    // Apply the migration
-    const migratedEvent = nextMigration.migrate(event) as T;
+        if (!options.batchSize || read < pageSize || lastRevision === undefined) {
+          return;
+        }
+        if (backwards && lastRevision === BigInt(0)) {
+          return;
+        }
+        fromRevision = backwards ? lastRevision - BigInt(1) : lastRevision + BigInt(1);
+      }
+    } catch (error) {
+      if (error instanceof StreamNotFoundError) {
+        return;
+      }
+      throw error;
+    }
+  }
 
-    // Recursively apply next migration if needed
-    return this.migrateEventIfNeeded(migratedEvent);
+  /**
+   * Reads events from a stream lazily, decoding and migrating each one as it is yielded.
+   * Events are never buffered, so long streams can be folded with constant memory.
+   * Revision options and `maxCount` refer to stored events, so a split event yields several
+   * events and a dropped one yields none.
+   * 
+   * @param streamId - The ID of the stream to read from
+   * @param options - Direction, revision range, maximum count and batch size of the read
+   * @returns Async iterator over the migrated events
+   */
+  async *readStream(streamId: string, options: StreamReadOptions = {}): AsyncGenerator<E> {
+    for await (const { event } of this.readStreamWithEnvelopes(streamId, options)) {
+      yield event;
+    }
   }
 
   /**
-   * Reads events from a stream.
+   * Reads events from a stream like readStream, yielding each migrated event with the envelope
+   * of the stored event it came from (ID, revision, position, created timestamp).
    * 
-   * @param streamName - The name of the stream to read from
-   * @param fromRevision - The revision to start reading from
-   * @returns Promise resolving to an array of read events
+   * @param streamId - The ID of the stream to read from
+   * @param options - Direction, revision range, maximum count and batch size of the read
+   * @returns Async iterator over the migrated events and their envelopes
    */
-  private async readEvents(streamName: string, fromRevision: typeof START | bigint = START): Promise<ResolvedEvent[]> {
-    try {
-      const events: ResolvedEvent[] = [];
-      const readStream = this.client.readStream(streamName, { fromRevision });
-      for await (const resolvedEvent of readStream) {
-        events.push(resolvedEvent);
-      }
-      return events;
-    } catch (error) {
-      if (error instanceof StreamNotFoundError) {
-        return [];
-      }
-      throw error;
+  async *readStreamWithEnvelopes(streamId: string, options: StreamReadOptions = {}): AsyncGenerator<EnvelopedEvent<E>> {
+    for await (const resolvedEvent of this.readEvents(streamId, options)) {
+      yield* await this.pipeline.resolve(resolvedEvent, options.schemaVersion);
     }
   }
 
   /**
-   * Gets the latest snapshot for a stream if available.
+   * Gets the latest snapshot for a stream from the configured snapshot store.
    * 
    * @param streamId - The ID of the stream
    * @returns Promise resolving to the latest snapshot or null if none exists
    */
   async getLatestSnapshot(streamId: string): Promise<Snapshot<S> | null> {
-    const snapshotStreamName = `${streamId}${this.config.snapshotPrefix}`;
-    try {
-      const events = await this.readEvents(snapshotStreamName, START);
-      if (events.length > 0) {
-        const latestSnapshot = events[events.length - 1].event;
-        if (latestSnapshot?.type === 'snapshot') {
-          return latestSnapshot.data as Snapshot<S>;
-        }
-      }
-      return null;
-    } catch (error) {
-      if (error instanceof StreamNotFoundError) {
-        return null;
-      }
-      throw error;
+    return (await this.loadSnapshot(streamId)).snapshot;
+  }
+
+  /**
+   * Loads the latest snapshot, upcasting or discarding it when its schema version does not
+   * match `snapshotSchemaVersion`. A snapshot holding personal data of a shredded subject is
+   * discarded too.
+   * 
+   * @param streamId - The ID of the stream
+   * @param subjects - Collects the subjects whose personal data the snapshot holds
+   * @returns Promise resolving to the usable snapshot, and whether the stored one is stale
+   */
+  private async loadSnapshot(
+    streamId: string,
+    subjects?: Set<string>
+  ): Promise<{ snapshot: Snapshot<S> | null; stale: boolean }> {
+    const stored = await this.snapshotStore.load(streamId);
+    if (!stored) {
+      return { snapshot: null, stale: false };
     }
+
+    const state = this.fieldEncryption ? await this.fieldEncryption.decryptSnapshot(stored.state, subjects) : stored.state;
+    if (state === undefined) {
+      this.config.logger.info('Discarded snapshot of shredded personal data', { streamId, snapshotVersion: stored.version });
+      return { snapshot: null, stale: true };
+    }
+    const snapshot = { ...stored, state: this.decodeSnapshotState(state) };
+
+    const schemaVersion = snapshot.schemaVersion ?? 1;
+    if (schemaVersion === this.config.snapshotSchemaVersion) {
+      return { snapshot: snapshot as Snapshot<S>, stale: false };
+    }
+
+    const upcasted = this.config.snapshotUpcaster
+      ? await this.config.snapshotUpcaster(snapshot)
+      : null;
+    this.config.logger.warn(upcasted ? 'Upcast snapshot' : 'Discarded snapshot', {
+      streamId,
+      schemaVersion,
+      expectedSchemaVersion: this.config.snapshotSchemaVersion,
+      snapshotVersion: snapshot.version,
+    });
+
+    return { snapshot: upcasted as Snapshot<S> | null, stale: true };
   }
 
   /**
@@ -132,102 +270,386 @@ export class StreamHelper<S extends JSONType, E extends BaseEvent> {
    * 
    * @param streamId - The ID of the stream to append to
    * @param event - The event to append
-   * @param expectedRevision - The expected revision for optimistic concurrency
-   * @returns Promise resolving to void
+   * @param options - The expected revision, or append options with an idempotency key
+   * @returns Promise resolving to the next expected revision, log position and event ID
+   */
+  async appendEvent(
+    streamId: string,
+    event: E,
+    options?: AppendOptions['expectedRevision'] | AppendOptions
+  ): Promise<AppendEventsResult> {
+    return this.appendEvents(
+      streamId,
+      [event],
+      typeof options === 'object' ? options : { expectedRevision: options }
+    );
+  }
+
+  /**
+   * Appends several events to the specified stream in a single atomic write.
+   *
+   * Event IDs are random unless the event has an `id` or `options.idempotencyKey` is set; both are
+   * mapped to deterministic UUIDs, so EventStoreDB ignores a retry of the same write.
+   * With `options.schemaVersion` the events are downcast from `currentEventVersion` and written at
+   * that older version, for consumers that have not upgraded yet.
+   * 
+   * @param streamId - The ID of the stream to append to
+   * @param events - The events to append, in order
+   * @param options - The expected revision for optimistic concurrency and an optional idempotency key
+   * @returns Promise resolving to the next expected revision, log position and event IDs
+   * @throws EventValidationError when an event fails its configured validator; nothing is written
    */
-  async appendEvent(streamId: string, event: E, expectedRevision?: bigint): Promise<void> {
-    const jsonEventData = jsonEvent({
-      id: randomUUID(),
+  async appendEvents(streamId: string, events: E[], options: AppendOptions = {}): Promise<AppendEventsResult> {
+    for (const event of events) {
+      await this.assertValidEvent(streamId, event);
+    }
+
+    const schemaVersion = options.schemaVersion ?? this.config.currentEventVersion;
+    const written = await Promise.all(events.map(async event => this.encryptEvent(
+      await this.migrations.downcast({ ...event, version: this.config.currentEventVersion }, schemaVersion)
+    )));
+
+    const eventIds = events.map((event, index) => this.getEventId(streamId, event, index, options.idempotencyKey));
+    const context = this.getMetadataContext(eventIds, options.metadataContext);
+    const eventData = written.map((event, index) => this.encodeEvent({
+      id: eventIds[index],
       type: event.type,
       data: event.data,
       metadata: {
-        ...event.metadata,
-        version: this.config.currentEventVersion,
+        ...stampMetadata(event.metadata, context),
+        version: event.version,
       },
-    });
+    }));
 
-    await this.client.appendToStream(streamId, [jsonEventData], {
-      expectedRevision,
+    const result = await this.client.appendToStream(streamId, eventData, {
+      expectedRevision: options.expectedRevision,
     });
+
+    return {
+      nextExpectedRevision: result.nextExpectedRevision,
+      position: result.position,
+      eventIds: eventData.map(event => event.id),
+    };
+  }
+
+  /**
+   * Throws EventValidationError when an event about to be written fails its validator.
+   */
+  protected async assertValidEvent(streamId: string, event: E): Promise<void> {
+    const issues = await this.pipeline.validate(event);
+    if (issues.length > 0) {
+      throw new EventValidationError(event.type, issues, streamId);
+    }
+  }
+
+  /**
+   * Encrypts the personal data fields of an event, when field encryption is configured.
+   */
+  protected async encryptEvent(event: E): Promise<E> {
+    return this.fieldEncryption ? this.fieldEncryption.encrypt(event) : event;
+  }
+
+  /**
+   * Picks the correlation and causation IDs of a write: the explicit context, else the ambient one,
+   * else a new flow started by the first event of the write.
+   */
+  protected getMetadataContext(eventIds: string[], explicit?: MetadataContext): MetadataContext {
+    return explicit ?? getMetadataContext() ?? { correlationId: eventIds[0], causationId: eventIds[0] };
+  }
+
+  /**
+   * Builds an event to append, encoding its data with the configured codec.
+   */
+  protected encodeEvent(event: { id?: string; type: string; data: JSONType; metadata?: unknown }): EventData {
+    return encodeEventData(this.config.eventCodec, event);
+  }
+
+  /**
+   * Picks the ID of an appended event: derived from its own `id`, else from the idempotency key
+   * (suffixed with the position of the event in the write), else random.
+   */
+  private getEventId(streamId: string, event: E, index: number, idempotencyKey?: string): string {
+    if (event.id !== undefined) {
+      return deterministicEventId(streamId, event.id);
+    }
+    if (idempotencyKey !== undefined) {
+      return this.getIdempotentEventId(streamId, idempotencyKey, index);
+    }
+    return randomUUID();
+  }
+
+  /**
+   * Derives the ID of the event at the given position in a write with an idempotency key.
+   */
+  private getIdempotentEventId(streamId: string, idempotencyKey: string, index: number): string {
+    return deterministicEventId(streamId, index === 0 ? idempotencyKey : `${idempotencyKey}/${index}`);
   }
 
   /**
    * Gets the current state of a stream by reading all events and applying them to the initial state.
    * 
    * @param streamId - The ID of the stream
-   * @param applyEvent - A function to apply each event to the state
+   * @param applyEvent - A function to apply each event to the state, given the event's envelope
    * @returns Promise resolving to the current state and version
    */
   async getCurrentState(
     streamId: string,
-    applyEvent: (state: S | null, event: E) => S
+    applyEvent: ApplyEvent<S, E>
   ): Promise<{ state: S | null; version: number }> {
+    const { state, version } = await this.loadState(streamId, applyEvent);
+    return { state, version };
+  }
+
+  /**
+   * Loads the current state like getCurrentState, also returning the revision of the last event
+   * read. Versions count events, so they stop matching revisions once a stream was deleted or
+   * truncated, and appends after the state must expect this revision instead.
+   * Given an idempotency key, it also finds the events read that were written with that key.
+   */
+  private async loadState(
+    streamId: string,
+    applyEvent: ApplyEvent<S, E>,
+    idempotencyKey?: string
+  ): Promise<{ state: S | null; version: number; revision: bigint | null; previousWrite: AppendEventsResult | null }> {
+    const logger = this.config.logger;
+    const startedAt = Date.now();
     try {
-      console.log('Getting current state for stream:', streamId);
-      const snapshot = await this.getLatestSnapshot(streamId);
-      console.log('Latest snapshot:', snapshot);
-      
+      // Subjects whose personal data is in the state, to encrypt its snapshot for
+      const subjects = new Set<string>();
+      const { snapshot, stale } = await this.loadSnapshot(streamId, subjects);
+      logger.debug('Loaded snapshot', { streamId, snapshotVersion: snapshot?.version ?? null });
+
       let state = snapshot?.state ?? null;
-      let fromRevision: typeof START | bigint = snapshot ? BigInt(snapshot.version) : START;
       let version = snapshot?.version ?? 0;
+      // Snapshots without a revision resume at their version, as they did before revisions were recorded
+      let revision = snapshot ? BigInt(snapshot.revision ?? snapshot.version - 1) : null;
+      const fromRevision: typeof START | bigint = revision === null ? START : revision + BigInt(1);
+      let previousWrite: AppendEventsResult | null = null;
 
-      console.log('Reading events from revision:', fromRevision);
-      const events = await this.readEvents(streamId, fromRevision);
-      console.log('Read events:', events.length);
-      
-      for (const resolvedEvent of events) {
-        if (resolvedEvent.event) {
-          console.log('Processing event:', resolvedEvent.event);
-          const eventData = resolvedEvent.event as unknown as E;
-          const migratedEvent = await this.migrateEventIfNeeded(eventData);
-          console.log('Migrated event:', migratedEvent);
-          state = applyEvent(state, migratedEvent);
+      for await (const resolvedEvent of this.readEvents(streamId, { fromRevision })) {
+        const recorded = resolvedEvent.event;
+        if (recorded) {
+          revision = recorded.revision;
+          const eventIds: string[] = previousWrite?.eventIds ?? [];
+          if (idempotencyKey !== undefined && recorded.id === this.getIdempotentEventId(streamId, idempotencyKey, eventIds.length)) {
+            previousWrite = { nextExpectedRevision: recorded.revision, position: recorded.position, eventIds: [...eventIds, recorded.id] };
+          }
+        }
+        const decoded = this.pipeline.decode(resolvedEvent);
+        if (decoded) {
+          // version counts stored events, however many events their migration produced
           version++;
-          console.log('Updated state:', state, 'Version:', version);
+          for (const migratedEvent of await this.pipeline.migrate(await this.pipeline.decrypt(decoded.event, subjects))) {
+            await this.pipeline.validateRead(streamId, migratedEvent, decoded.envelope);
+            state = applyEvent(state, migratedEvent, decoded.envelope);
+            logger.debug('Applied event', {
+              streamId,
+              revision: decoded.envelope.revision,
+              eventType: migratedEvent.type,
+              version,
+            });
+          }
         }
       }
 
-      if (this.config.snapshotFrequency > 0 && version > 0 && version % this.config.snapshotFrequency === 0) {
-        console.log('Creating snapshot at version:', version);
-        await this.createSnapshot(streamId, state, version);
+      const replayDurationMs = Date.now() - startedAt;
+      const lastSnapshotVersion = stale ? 0 : snapshot?.version ?? 0;
+      const snapshotDue = this.config.snapshotPolicy({
+        streamId,
+        version,
+        lastSnapshotVersion,
+        lastSnapshotTimestamp: stale ? null : snapshot?.timestamp ?? null,
+        eventsSinceLastSnapshot: version - lastSnapshotVersion,
+        replayDurationMs,
+      });
+      if (version > 0 && (stale || snapshotDue)) {
+        this.scheduleSnapshot(streamId, state, version, revision!, subjects);
       }
 
-      console.log('Returning final state:', state, 'Version:', version);
-      return { state, version };
+      logger.debug('Rebuilt current state', { streamId, version, durationMs: replayDurationMs });
+      return { state, version, revision, previousWrite };
     } catch (error) {
-      console.error('Error getting current state:', error);
+      logger.error('Failed to get current state', {
+        streamId,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+      });
       throw error;
     }
   }
 
   /**
-   * Creates a new snapshot event in a snapshot stream.
+   * Handles a command with optimistic concurrency: loads the current state, asks `decide` for
+   * the events to append, and appends them at the revision of the last event loaded. When another writer got there
+   * first (WrongExpectedVersionError) the state is reloaded and the command retried with backoff.
+   * Errors thrown by `decide` are not retried.
+   *
+   * With an idempotency key, a command whose events are already in the loaded part of the stream
+   * (after the latest snapshot) is not decided again; it returns the result of the earlier write.
+   * 
+   * @param streamId - The ID of the stream
+   * @param applyEvent - A function to apply each event to the state
+   * @param decide - Returns the events produced by the command for the given state
+   * @param retry - Overrides the configured `commandRetry` options
+   * @param options - Idempotency key and correlation and causation IDs of the appended events
+   * @returns Promise resolving to the new state, the appended events and the append result
+   */
+  async handleCommand(
+    streamId: string,
+    applyEvent: ApplyEvent<S, E>,
+    decide: (state: S | null, version: number) => E[] | Promise<E[]>,
+    retry: RetryOptions = {},
+    options: Pick<AppendOptions, 'idempotencyKey' | 'metadataContext'> = {}
+  ): Promise<CommandResult<S>> {
+    const { maxAttempts, initialDelayMs, maxDelayMs, backoffFactor } = {
+      maxAttempts: 3,
+      initialDelayMs: 50,
+      maxDelayMs: 1000,
+      backoffFactor: 2,
+      ...this.config.commandRetry,
+      ...retry,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      const { state, version, revision, previousWrite } = await this.loadState(streamId, applyEvent, options.idempotencyKey);
+      if (previousWrite) {
+        this.config.logger.info('Skipped command already handled', { streamId, idempotencyKey: options.idempotencyKey });
+        return { state, version, events: [], appendResult: previousWrite, attempts: attempt };
+      }
+
+      const events = await decide(state, version);
+
+      if (events.length === 0) {
+        return { state, version, events, appendResult: null, attempts: attempt };
+      }
+
+      try {
+        const appendResult = await this.appendEvents(streamId, events, {
+          ...options,
+          expectedRevision: revision ?? NO_STREAM,
+        });
+        return {
+          state: events.reduce<S | null>(
+            (current, event, index) => applyEvent(current, event, this.appendedEnvelope(streamId, appendResult, events.length, index)),
+            state
+          ),
+          version: version + events.length,
+          events,
+          appendResult,
+          attempts: attempt,
+        };
+      } catch (error) {
+        if (!(error instanceof WrongExpectedVersionError) || attempt >= maxAttempts) {
+          throw error;
+        }
+
+        const delayMs = Math.min(initialDelayMs * Math.pow(backoffFactor, attempt - 1), maxDelayMs);
+        this.config.logger.warn('Retrying command after concurrency conflict', {
+          streamId,
+          version,
+          attempt,
+          delayMs,
+        });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Builds the envelope of an event just appended by handleCommand. The server timestamp is not
+   * returned by appends, so `created` is the local time.
+   */
+  private appendedEnvelope(streamId: string, appendResult: AppendEventsResult, count: number, index: number): EventEnvelope {
+    return {
+      id: appendResult.eventIds[index],
+      streamId,
+      revision: appendResult.nextExpectedRevision - BigInt(count - 1 - index),
+      position: appendResult.position,
+      created: new Date(),
+      schemaVersion: this.config.currentEventVersion,
+    };
+  }
+
+  /**
+   * Waits for snapshot writes started in the background by getCurrentState.
+   * Call before shutting down, or in tests before inspecting the snapshot store.
+   * 
+   * @returns Promise resolving once all pending snapshot writes have settled
+   */
+  async flushSnapshots(): Promise<void> {
+    await Promise.all(this.pendingSnapshots.values());
+  }
+
+  /**
+   * Starts a snapshot write without waiting for it, so reads are not slowed down. The write gets
+   * its own copy of the state, as the caller may change the state it is returned.
+   * Failures are logged, and a stream with a write in flight is not snapshotted again.
+   */
+  private scheduleSnapshot(streamId: string, state: S | null, version: number, revision: bigint, subjects: Set<string>): void {
+    if (!state || this.pendingSnapshots.has(streamId)) {
+      return;
+    }
+
+    const logger = this.config.logger;
+    // createSnapshot encodes, and so copies, the state before it returns; the executor turns encoding errors into rejections
+    const pending = new Promise<void>(resolve => resolve(this.createSnapshot(streamId, state, version, revision, subjects)))
+      .then(() => logger.info('Created snapshot', { streamId, version }))
+      .catch(error => logger.warn('Failed to create snapshot', {
+        streamId,
+        version,
+        error: error instanceof Error ? error.message : String(error),
+      }))
+      .finally(() => this.pendingSnapshots.delete(streamId));
+    this.pendingSnapshots.set(streamId, pending);
+  }
+
+  /**
+   * Saves a snapshot of the current state to the configured snapshot store. The state is encoded
+   * with the event codec before the first await, so the snapshot holds a copy of it. State built
+   * from personal data is encrypted for its subjects, so shredding one of them erases the snapshot.
    * 
    * @param streamId - The ID of the main stream
    * @param state - The current state to store in the snapshot
    * @param version - The version of the snapshot
+   * @param revision - The stream revision of the last event applied to the state
+   * @param subjects - The subjects whose decrypted personal data the state was built from
    * @returns Promise resolving to void
    */
-  private async createSnapshot(streamId: string, state: S | null, version: number): Promise<void> {
-    if (!state) return;
-
-    const timestamp = (state as any).timestamp || new Date('2025-01-21T13:38:57-05:00').toISOString();
-    const event = {
-      id: randomUUID(),
-      type: 'snapshot',
-      data: {
-        state,
-        version,
-        timestamp
-      },
-      metadata: {},
-      contentType: 'application/json' as const
-    };
+  private createSnapshot(
+    streamId: string,
+    state: S | null,
+    version: number,
+    revision: bigint,
+    subjects: Set<string> = new Set()
+  ): Promise<void> {
+    if (!state) return Promise.resolve();
 
-    await this.client.appendToStream(
-      `${streamId}${this.config.snapshotPrefix}`,
-      [event]
-    );
+    const encoded = this.encodeSnapshotState(state);
+    const encrypted = this.fieldEncryption ? this.fieldEncryption.encryptSnapshot(encoded, subjects) : Promise.resolve(encoded);
+    return encrypted.then(snapshotState => this.snapshotStore.save(streamId, {
+      state: snapshotState,
+      version,
+      revision: revision.toString(),
+      timestamp: new Date().toISOString(),
+      schemaVersion: this.config.snapshotSchemaVersion
+    }));
+  }
+
+  /**
+   * Encodes snapshot state with the event codec. Snapshot stores hold JSON, so the bytes written
+   * by a binary codec are stored base64-encoded under `$binary`.
+   */
+  private encodeSnapshotState(state: S): JSONType {
+    const encoded = this.config.eventCodec.encode(state as unknown as JSONType);
+    return encoded instanceof Uint8Array ? { $binary: Buffer.from(encoded).toString('base64') } : encoded;
+  }
+
+  /**
+   * Decodes snapshot state written by encodeSnapshotState, or before snapshots were encoded.
+   */
+  private decodeSnapshotState(state: JSONType): JSONType {
+    const binary = (state as { $binary?: unknown } | null)?.$binary;
+    return this.config.eventCodec.decode(typeof binary === 'string' ? new Uint8Array(Buffer.from(binary, 'base64')) : state);
   }
 
   /**
@@ -237,28 +659,41 @@ export class StreamHelper<S extends JSONType, E extends BaseEvent> {
    * 
    * @param transactionId - Unique identifier for this transaction
    * @param streamEvents - Array of events with their target streams
+   * @param options - Correlation and causation IDs, instead of the ambient metadata context
    * @returns Promise resolving to the transaction stream ID
+   * @throws EventValidationError when an event fails its configured validator; nothing is written
    */
-  async appendMultiStreamEvents(transactionId: string, streamEvents: StreamEvent<E>[]): Promise<string> {
+  async appendMultiStreamEvents(
+    transactionId: string,
+    streamEvents: StreamEvent<E>[],
+    options: Pick<AppendOptions, 'metadataContext'> = {}
+  ): Promise<string> {
+    for (const { streamId, event } of streamEvents) {
+      await this.assertValidEvent(streamId, event);
+    }
+
     const transactionStreamId = `$tx-${transactionId}`;
+    const eventIds = streamEvents.map(() => randomUUID());
+    const context = this.getMetadataContext(eventIds, options.metadataContext);
     
-    // Create transaction events that wrap the original events with their target stream information
-    const transactionEvents = streamEvents.map(({ streamId, event, expectedRevision }) => ({
-      id: randomUUID(),
+    // Create transaction events that wrap the original events with their target stream information.
+    // Personal data is encrypted here already, so the transaction stream never holds it in plain text.
+    const transactionEvents = await Promise.all(streamEvents.map(async ({ streamId, event, expectedRevision }, index) => ({
+      id: eventIds[index],
       type: 'StreamEvent',
-      data: {
+      data: transactionCodec.encode({
         targetStream: streamId,
         event: {
           type: event.type,
-          data: event.data,
-          metadata: event.metadata || {},
+          data: (await this.encryptEvent(event)).data,
+          metadata: stampMetadata(event.metadata, context),
           version: event.version || this.config.currentEventVersion,
         },
         expectedRevision: expectedRevision !== undefined ? expectedRevision : undefined,
-      },
-      metadata: {},
+      }) as JSONType,
+      metadata: stampMetadata({}, context),
       contentType: 'application/json' as const,
-    }));
+    })));
 
     // Append all events to the transaction stream atomically
     await this.client.appendToStream(transactionStreamId, transactionEvents);
@@ -267,63 +702,122 @@ export class StreamHelper<S extends JSONType, E extends BaseEvent> {
   }
 
   /**
-   * Processes a transaction stream by applying its events to their target streams.
-   * If any append fails due to concurrency, the entire transaction is marked as failed.
-   * 
+   * Processes a transaction stream by applying its events to their target streams, each at the
+   * expected revision recorded for it (any revision when none was recorded).
+   *
+   * Processing is resumable and idempotent. Every applied step is recorded in the transaction
+   * stream with a `TransactionStepApplied` event, and a later call skips recorded steps. A step
+   * applied just before a crash, but not recorded, is appended again with the same deterministic
+   * event ID, which EventStoreDB recognises as a repeated write. A transaction that already
+   * completed or failed is left as it is.
+   *
+   * An error applying a step marks the transaction as failed, except for transient errors such as
+   * an unavailable server or a timeout, which leave it pending to be resumed.
+   *
    * @param transactionStreamId - ID of the transaction stream to process
    * @returns Promise resolving to void
+   * @throws {WrongExpectedVersionError} If a target stream is not at its recorded revision
    */
   async processTransactionStream(transactionStreamId: string): Promise<void> {
-    const events = await this.readEvents(transactionStreamId);
-    
-    for (const resolvedEvent of events) {
-      const eventData = resolvedEvent.event?.data as any;
-      if (!eventData?.targetStream || !eventData?.event) continue;
+    const transaction = await this.readTransaction(transactionStreamId);
+    if (transaction.outcome) {
+      this.config.logger.debug('Transaction already processed', { transactionStreamId, outcome: transaction.outcome.type });
+      return;
+    }
+
+    // Records get deterministic IDs too, so processors resuming the same transaction write them once
+    const appendRecord = async (type: string, data: JSONType, key: string, context?: MetadataContext) => {
+      const id = deterministicEventId(transactionStreamId, key);
+      await this.client.appendToStream(transactionStreamId, [{
+        id,
+        type,
+        data,
+        metadata: stampMetadata({}, context ?? this.getMetadataContext([id])),
+        contentType: 'application/json' as const,
+      }]);
+    };
+
+    // Outcome events are caused by the last transaction event processed
+    let outcomeContext: MetadataContext | undefined;
+    for (const { step, targetStream, event, expectedRevision, envelope } of transaction.steps) {
+      outcomeContext = causedBy(envelope);
+      if (transaction.appliedSteps.has(step)) continue;
 
+      const eventId = deterministicEventId(targetStream, `${transactionStreamId}/${step}`);
       try {
-        const targetEvent = {
-          id: randomUUID(),
-          type: eventData.event.type,
-          data: eventData.event.data,
-          metadata: {},
-          contentType: 'application/json' as const,
-        };
+        // The wrapped event keeps its metadata, including its correlation chain, and its schema
+        // version, which readers of the target stream decode
+        const targetEvent = this.encodeEvent({
+          id: eventId,
+          type: event.type,
+          data: event.data,
+          metadata: {
+            ...event.metadata,
+            version: event.version ?? this.config.legacyEventVersion,
+          },
+        });
 
-        await this.client.appendToStream(
-          eventData.targetStream,
-          [targetEvent],
-          { expectedRevision: BigInt(0) }
-        );
+        await this.client.appendToStream(targetStream, [targetEvent], {
+          expectedRevision: expectedRevision ?? ANY,
+        });
       } catch (error) {
-        // Mark transaction as failed by appending a failure event
-        const failureEvent = {
-          id: randomUUID(),
-          type: 'TransactionFailed',
-          data: {
-            error: error instanceof Error ? error.message : String(error),
-            failedStream: eventData.targetStream,
-          },
-          metadata: {},
-          contentType: 'application/json' as const,
-        };
-        
-        await this.client.appendToStream(transactionStreamId, [failureEvent]);
+        if (isTransientError(error)) {
+          throw error;
+        }
+        await appendRecord('TransactionFailed', {
+          error: describeTransactionError(error),
+          failedStream: targetStream,
+          step,
+        }, 'failed', outcomeContext);
         throw error;
       }
+
+      await appendRecord('TransactionStepApplied', { step, targetStream, eventId }, `step-${step}`, outcomeContext);
     }
 
-    // Mark transaction as completed
-    await this.client.appendToStream(transactionStreamId, [
-      {
-        id: randomUUID(),
-        type: 'TransactionCompleted',
-        data: {
-          timestamp: new Date().toISOString(),
-        },
-        metadata: {},
-        contentType: 'application/json' as const,
+    await appendRecord('TransactionCompleted', {
+      timestamp: new Date().toISOString(),
+    }, 'completed', outcomeContext);
+  }
+
+  /**
+   * Reads a transaction stream: the wrapped events in order, the steps recorded as applied and
+   * the outcome, if any.
+   */
+  protected async readTransaction(transactionStreamId: string): Promise<TransactionRecords> {
+    const transaction: TransactionRecords = { steps: [], appliedSteps: new Set(), outcome: null };
+
+    for await (const resolvedEvent of this.readEvents(transactionStreamId)) {
+      const decoded = this.pipeline.decode(resolvedEvent);
+      if (!decoded) continue;
+      const data = decoded.event.data as any;
+
+      switch (decoded.event.type) {
+        case 'StreamEvent':
+          if (!data?.targetStream || !data?.event) break;
+          transaction.steps.push({
+            step: transaction.steps.length,
+            targetStream: data.targetStream,
+            event: data.event,
+            expectedRevision: data.expectedRevision !== undefined && data.expectedRevision !== null
+              ? BigInt(data.expectedRevision)
+              : undefined,
+            envelope: decoded.envelope,
+          });
+          break;
+        case 'TransactionStepApplied':
+          transaction.appliedSteps.add(data.step);
+          break;
+        case 'TransactionCompleted':
+          transaction.outcome = { type: 'completed' };
+          break;
+        case 'TransactionFailed':
+          transaction.outcome = { type: 'failed', reason: data?.error };
+          break;
       }
-    ]);
+    }
+
+    return transaction;
   }
 
   /**
@@ -331,7 +825,7 @@ export class StreamHelper<S extends JSONType, E extends BaseEvent> {
    * @param streamId - The ID of the stream to create a transaction for
    * @returns A promise that resolves to the EventStoreDB client
    */
-  protected async createTransaction(streamId: string): Promise<EventStoreDBClient> {
+  protected async createTransaction(streamId: string): Promise<EventStoreClient> {
     return this.client;
   }
 }
@@ -0,0 +1,137 @@
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { SubscriptionHelper } from './subscriptionHelper';
+import { StreamHelper } from './streamHelpers';
+import { InMemoryCheckpointStore } from './checkpointStores';
+import { CAUSATION_ID, CORRELATION_ID } from './metadataContext';
+import { BaseEvent, CheckpointStore } from './types';
+
+interface ItemAdded extends BaseEvent<'ItemAdded', { sku: string; quantity: number }> { }
+interface ItemRemoved extends BaseEvent<'ItemRemoved', { sku: string }> { }
+type CartEvent = ItemAdded | ItemRemoved;
+
+describe('SubscriptionHelper', () => {
+  let client: InMemoryEventStore;
+  let checkpointStore: CheckpointStore;
+  let writer: StreamHelper<any, CartEvent>;
+
+  const added = (sku: string, quantity = 1): ItemAdded => ({ type: 'ItemAdded', data: { sku, quantity } });
+
+  beforeEach(() => {
+    client = new InMemoryEventStore();
+    checkpointStore = new InMemoryCheckpointStore();
+    writer = new StreamHelper<any, CartEvent>(client, {});
+  });
+
+  it('should hand typed events of a category to their handlers and resume from the checkpoint', async () => {
+    await writer.appendEvents('cart-1', [added('apple'), { type: 'ItemRemoved', data: { sku: 'apple' } }]);
+    await writer.appendEvents('order-1', [added('ignored')]);
+    const helper = new SubscriptionHelper<CartEvent>(client, { checkpointStore });
+    const skus: string[] = [];
+    const handlers = {
+      ItemAdded: (event: ItemAdded) => { skus.push(`+${event.data.sku}`); },
+      ItemRemoved: (event: ItemRemoved) => { skus.push(`-${event.data.sku}`); },
+    };
+
+    const first = helper.subscribe({ subscriptionId: 'carts', source: { category: 'cart' }, handlers });
+    await first.caughtUp;
+    await first.stop();
+    await writer.appendEvents('cart-2', [added('pear')]);
+
+    const second = helper.subscribe({ subscriptionId: 'carts', source: { category: 'cart' }, handlers });
+    await second.caughtUp;
+    await second.stop();
+
+    expect(skus).toEqual(['+apple', '-apple', '+pear']);
+    expect(await checkpointStore.load('carts')).toEqual({ position: expect.objectContaining({ commit: expect.any(BigInt) }) });
+  });
+
+  it('should stop on a handler error and deliver the failed event again on restart', async () => {
+    await writer.appendEvents('cart-1', [added('apple'), added('pear')]);
+    const helper = new SubscriptionHelper<CartEvent>(client, { checkpointStore });
+    const handled: string[] = [];
+    let failOn: string | null = 'pear';
+    const subscribe = () => helper.subscribe({
+      subscriptionId: 'cart-1-view',
+      source: { stream: 'cart-1' },
+      handlers: {
+        ItemAdded: event => {
+          if (event.data.sku === failOn) throw new Error('view unavailable');
+          handled.push(event.data.sku);
+        },
+      },
+    });
+
+    const failed = subscribe();
+    await expect(failed.caughtUp).rejects.toThrow('view unavailable');
+    await expect(failed.done).rejects.toThrow('view unavailable');
+    expect(await checkpointStore.load('cart-1-view')).toEqual({ revision: BigInt(0) });
+
+    failOn = null;
+    const restarted = subscribe();
+    await restarted.caughtUp;
+    await restarted.stop();
+
+    expect(handled).toEqual(['apple', 'pear']);
+    expect(await checkpointStore.load('cart-1-view')).toEqual({ revision: BigInt(1) });
+  });
+
+  it('should read a source after a checkpoint without subscribing', async () => {
+    await writer.appendEvents('cart-1', [added('apple'), added('pear')]);
+    await writer.appendEvents('order-1', [added('ignored')]);
+    await writer.appendEvents('cart-2', [added('plum')]);
+    const helper = new SubscriptionHelper<CartEvent>(client);
+    const read = async (...args: Parameters<typeof helper.readSource>) => {
+      const skus: string[] = [];
+      for await (const { events } of helper.readSource(...args)) {
+        skus.push(...events.map(({ event }) => (event as ItemAdded).data.sku));
+      }
+      return skus;
+    };
+
+    const [first] = await client.readStream('cart-1').toArray();
+    expect(await read({ category: 'cart' })).toEqual(['apple', 'pear', 'plum']);
+    expect(await read({ category: 'cart' }, { position: first.event!.position! })).toEqual(['pear', 'plum']);
+    expect(await read({ stream: 'cart-1' }, { revision: BigInt(0) })).toEqual(['pear']);
+    expect(await read({ stream: 'cart-9' })).toEqual([]);
+  });
+
+  it('should migrate events and correlate the events handlers write to the handled event', async () => {
+    await client.appendToStream('cart-1', [{
+      id: 'a0b1c2d3-0000-4000-8000-000000000001',
+      type: 'ItemAdded',
+      data: { sku: 'apple' },
+      metadata: { version: 1 },
+      contentType: 'application/json',
+    }]);
+    const helper = new SubscriptionHelper<CartEvent>(client, {
+      eventMigrations: [{
+        eventType: 'ItemAdded',
+        fromVersion: 1,
+        toVersion: 2,
+        migrate: (event: ItemAdded) => ({ ...event, data: { ...event.data, quantity: 1 }, version: 2 }),
+      }],
+    });
+
+    const subscription = helper.subscribe({
+      subscriptionId: 'stock',
+      source: { category: 'cart' },
+      handlers: {
+        ItemAdded: async event => {
+          await writer.appendEvents(`stock-${event.data.sku}`, [added(event.data.sku, -event.data.quantity)]);
+        },
+      },
+    });
+    await subscription.caughtUp;
+    await subscription.stop();
+
+    const written: CartEvent[] = [];
+    for await (const event of writer.readStream('stock-apple')) {
+      written.push(event);
+    }
+    expect(written[0].data).toEqual({ sku: 'apple', quantity: -1 });
+    expect(written[0].metadata).toEqual(expect.objectContaining({
+      [CORRELATION_ID]: 'a0b1c2d3-0000-4000-8000-000000000001',
+      [CAUSATION_ID]: 'a0b1c2d3-0000-4000-8000-000000000001',
+    }));
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * SubscriptionHelper runs catch-up subscriptions that feed typed event handlers.
+ *
+ * Features:
+ * - Subscribes to one stream, a category (`<category>-*` streams) or $all with a server-side filter
+ * - Events go through the same read pipeline as reads: decoding, decryption, migration, validation
+ *   and optional downcasting
+ * - Handlers run in the metadata context of the handled event, so the events they write are
+ *   correlated to it
+ * - Checkpoints are saved to a CheckpointStore after events are handled, and a restarted
+ *   subscription resumes after the last checkpoint
+ *
+ * Delivery is at-least-once: events handled after the last saved checkpoint are handled again
+ * after a crash, so handlers must be idempotent.
+ */
+import {
+  START,
+  STREAM_NAME,
+  AllStreamResolvedEvent,
+  Filter,
+  RecordedEvent,
+  ResolvedEvent,
+  StreamNotFoundError,
+  excludeSystemEvents,
+  streamNameFilter,
+} from '@eventstore/db-client';
+import {
+  BaseEvent,
+  Checkpoint,
+  CheckpointStore,
+  EnvelopedEvent,
+  EventEnvelope,
+  EventStoreClient,
+  ReadPipelineConfig,
+} from './types';
+import { InMemoryCheckpointStore } from './checkpointStores';
+import { EventReadPipeline } from './eventReadPipeline';
+import { causedBy, runWithMetadataContext } from './metadataContext';
+
+type SubscriptionConfig<E extends BaseEvent> = ReadPipelineConfig<E> & {
+  // Where checkpoints are kept, defaults to an InMemoryCheckpointStore
+  checkpointStore?: CheckpointStore;
+};
+
+// What a subscription reads: one stream, every `<category>-` stream, or $all (system events excluded unless a filter is given)
+export type SubscriptionSource =
+  | { stream: string }
+  | { category: string }
+  | { all: true; filter?: Filter };
+
+export type EventHandler<E extends BaseEvent> = (event: E, envelope: EventEnvelope) => void | Promise<void>;
+
+// One handler per event type; events without a handler are skipped
+export type EventHandlers<E extends BaseEvent> = {
+  [T in E['type']]?: EventHandler<Extract<E, { type: T }>>;
+};
+
+export interface SubscribeOptions<E extends BaseEvent> {
+  // Name the checkpoint is saved under; keep it stable across restarts
+  subscriptionId: string;
+  source: SubscriptionSource;
+  handlers: EventHandlers<E>;
+  // Schema version to hand events to the handlers at, downcasting them after migration
+  schemaVersion?: number;
+  // Number of handled events between checkpoint saves, defaults to 1
+  checkpointEvery?: number;
+}
+
+export interface Subscription {
+  // Resolves once the events that existed when the subscription started have been handled, or
+  // the subscription was stopped; rejects when it fails before that
+  caughtUp: Promise<void>;
+  // Resolves when the subscription is stopped, rejects when a handler fails
+  done: Promise<void>;
+  // Stops the subscription and saves its checkpoint
+  stop(): Promise<void>;
+}
+
+// An event read from a source by readSource, with the checkpoint to resume after it
+export type SourceEvent<E extends BaseEvent> = {
+  // Empty for events without a decoder, or migrated away
+  events: EnvelopedEvent<E>[];
+  checkpoint: Checkpoint;
+};
+
+// The client side of a catch-up subscription, as returned by subscribeToStream and subscribeToAll
+type EventSubscription = AsyncIterable<ResolvedEvent> & {
+  on(event: 'caughtUp', listener: () => void): unknown;
+  unsubscribe(): Promise<void>;
+};
+
+export class SubscriptionHelper<E extends BaseEvent> {
+  private client: EventStoreClient;
+  private pipeline: EventReadPipeline<E>;
+  private checkpointStore: CheckpointStore;
+
+  /**
+   * @param client - The EventStoreDB client instance, or an InMemoryEventStore
+   * @param config - The read pipeline settings and the checkpoint store
+   * @throws MigrationError when `eventMigrations` contains an invalid chain
+   */
+  constructor(client: EventStoreClient, config: SubscriptionConfig<E> = {}) {
+    this.client = client;
+    this.pipeline = new EventReadPipeline<E>(config);
+    this.checkpointStore = config.checkpointStore ?? new InMemoryCheckpointStore();
+  }
+
+  /**
+   * Starts a catch-up subscription from the saved checkpoint, or from the start of the source.
+   * A handler error stops the subscription: the checkpoint stays before the failed event, which
+   * is handled again on the next start.
+   *
+   * @param options - Subscription ID, source, handlers and checkpointing
+   * @returns The running subscription
+   */
+  subscribe(options: SubscribeOptions<E>): Subscription {
+    const logger = this.pipeline.logger;
+    const { subscriptionId, source, handlers } = options;
+    const checkpointEvery = options.checkpointEvery ?? 1;
+
+    let subscription: EventSubscription | undefined;
+    let stopped = false;
+    let checkpoint: Checkpoint | null = null;
+    let savedCheckpoint: Checkpoint | null = null;
+    let handledSinceSave = 0;
+
+    let resolveCaughtUp!: () => void;
+    let rejectCaughtUp!: (error: unknown) => void;
+    const caughtUp = new Promise<void>((resolve, reject) => {
+      resolveCaughtUp = resolve;
+      rejectCaughtUp = reject;
+    });
+    let liveReached = false;
+    let handling = false;
+
+    const saveCheckpoint = async () => {
+      if (checkpoint && checkpoint !== savedCheckpoint) {
+        await this.checkpointStore.save(subscriptionId, checkpoint);
+        savedCheckpoint = checkpoint;
+        handledSinceSave = 0;
+        logger.debug('Saved checkpoint', { subscriptionId, checkpoint });
+      }
+    };
+
+    const run = async () => {
+      checkpoint = savedCheckpoint = await this.checkpointStore.load(subscriptionId);
+      if (stopped) return;
+      subscription = this.openSubscription(source, checkpoint);
+      subscription.on('caughtUp', () => {
+        liveReached = true;
+        if (!handling) resolveCaughtUp();
+      });
+      logger.info('Started subscription', { subscriptionId, checkpoint });
+
+      for await (const resolvedEvent of subscription) {
+        handling = true;
+        let handled = false;
+        for (const { event, envelope } of await this.pipeline.resolve(resolvedEvent, options.schemaVersion)) {
+          const handler = handlers[event.type as E['type']] as EventHandler<E> | undefined;
+          if (!handler) continue;
+          await runWithMetadataContext(causedBy(envelope), () => handler(event, envelope));
+          handled = true;
+        }
+
+        checkpoint = getCheckpoint(source, resolvedEvent) ?? checkpoint;
+        // Only handled events trigger a save, so a subscription never chases its own checkpoint writes
+        if (handled && ++handledSinceSave >= checkpointEvery) {
+          await saveCheckpoint();
+        }
+        handling = false;
+        if (liveReached) resolveCaughtUp();
+      }
+    };
+
+    const done = run()
+      .then(saveCheckpoint, async error => {
+        logger.error('Subscription failed', {
+          subscriptionId,
+          checkpoint: savedCheckpoint,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        try {
+          await subscription?.unsubscribe();
+          await saveCheckpoint();
+        } finally {
+          rejectCaughtUp(error);
+        }
+        throw error;
+      })
+      .finally(resolveCaughtUp);
+    // Failures are reported through done and caughtUp
+    done.catch(() => undefined);
+    caughtUp.catch(() => undefined);
+
+    return {
+      caughtUp,
+      done,
+      stop: async () => {
+        stopped = true;
+        await subscription?.unsubscribe();
+        await done.catch(() => undefined);
+        logger.info('Stopped subscription', { subscriptionId, checkpoint });
+      },
+    };
+  }
+
+  /**
+   * Forgets the checkpoint of a subscription, so its next start replays the whole source.
+   *
+   * @param subscriptionId - The ID of the subscription
+   */
+  async resetCheckpoint(subscriptionId: string): Promise<void> {
+    await this.checkpointStore.delete(subscriptionId);
+  }
+
+  /**
+   * Reads the events of a source after a checkpoint without subscribing, for replays that handle
+   * the existing events in bulk before a subscription takes over from the last checkpoint.
+   * Category and $all filters are applied here, as reads of $all cannot be filtered by the server.
+   *
+   * @param source - The source to read
+   * @param from - Checkpoint to read after, or null to read from the start
+   * @param schemaVersion - Schema version to downcast the events to
+   * @returns Async generator of the source's events, each with its checkpoint
+   */
+  async *readSource(
+    source: SubscriptionSource,
+    from: Checkpoint | null = null,
+    schemaVersion?: number
+  ): AsyncGenerator<SourceEvent<E>> {
+    checkCheckpoint(source, from);
+
+    if ('stream' in source) {
+      const read = this.client.readStream(source.stream, {
+        fromRevision: from && 'revision' in from ? from.revision + BigInt(1) : START,
+        resolveLinkTos: true,
+      });
+      try {
+        for await (const resolvedEvent of read) {
+          const checkpoint = getCheckpoint(source, resolvedEvent);
+          if (checkpoint) {
+            yield { events: await this.pipeline.resolve(resolvedEvent, schemaVersion), checkpoint };
+          }
+        }
+      } catch (error) {
+        if (!(error instanceof StreamNotFoundError)) {
+          throw error;
+        }
+      }
+      return;
+    }
+
+    const fromPosition = from && 'position' in from ? from.position : null;
+    for await (const resolvedEvent of this.client.readAll({ fromPosition: fromPosition ?? START })) {
+      const recorded = resolvedEvent.event;
+      // Reads of $all include the event at fromPosition, which the checkpoint has already covered
+      if (!recorded?.position || !matchesSource(source, recorded) ||
+          (fromPosition && recorded.position.commit === fromPosition.commit &&
+            recorded.position.prepare === fromPosition.prepare)) {
+        continue;
+      }
+      yield {
+        events: await this.pipeline.resolve(resolvedEvent, schemaVersion),
+        checkpoint: { position: recorded.position },
+      };
+    }
+  }
+
+  private openSubscription(source: SubscriptionSource, checkpoint: Checkpoint | null): EventSubscription {
+    checkCheckpoint(source, checkpoint);
+    if ('stream' in source) {
+      return this.client.subscribeToStream(source.stream, {
+        fromRevision: checkpoint && 'revision' in checkpoint ? checkpoint.revision : START,
+        resolveLinkTos: true,
+      });
+    }
+
+    return this.client.subscribeToAll({
+      fromPosition: checkpoint && 'position' in checkpoint ? checkpoint.position : START,
+      filter: 'category' in source
+        ? streamNameFilter({ prefixes: [`${source.category}-`] })
+        : source.filter ?? excludeSystemEvents(),
+    });
+  }
+}
+
+function checkCheckpoint(source: SubscriptionSource, checkpoint: Checkpoint | null): void {
+  if (checkpoint && 'stream' in source && !('revision' in checkpoint)) {
+    throw new Error(`Checkpoint of stream subscription to ${source.stream} is a $all position`);
+  }
+  if (checkpoint && !('stream' in source) && !('position' in checkpoint)) {
+    throw new Error('Checkpoint of $all subscription is a stream revision');
+  }
+}
+
+/**
+ * Whether an event read from $all belongs to a category or $all source, as the server-side
+ * filter of the matching subscription would decide.
+ */
+function matchesSource(source: Exclude<SubscriptionSource, { stream: string }>, recorded: RecordedEvent): boolean {
+  if ('category' in source) {
+    return recorded.streamId.startsWith(`${source.category}-`);
+  }
+  if (!source.filter) {
+    return !recorded.type.startsWith('$');
+  }
+  const value = source.filter.filterOn === STREAM_NAME ? recorded.streamId : recorded.type;
+  return 'prefixes' in source.filter
+    ? source.filter.prefixes.some(prefix => value.startsWith(prefix))
+    : new RegExp(source.filter.regex).test(value);
+}
+
+/**
+ * Where a subscription resumes after this event: the revision in the subscribed stream (of the
+ * link, for links resolved from a projection stream), or the position in $all.
+ */
+function getCheckpoint(source: SubscriptionSource, resolvedEvent: ResolvedEvent): Checkpoint | null {
+  if ('stream' in source) {
+    const recorded = resolvedEvent.link ?? resolvedEvent.event;
+    return recorded ? { revision: recorded.revision } : null;
+  }
+  const position = (resolvedEvent as AllStreamResolvedEvent).event?.position;
+  return position ? { position } : null;
+}
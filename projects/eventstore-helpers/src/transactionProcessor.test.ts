@@ -0,0 +1,163 @@
+import { ResolvedEvent, UnavailableError, WrongExpectedVersionError } from '@eventstore/db-client';
+import { InMemoryEventStore } from './inMemoryEventStore';
+import { TransactionProcessor } from './transactionProcessor';
+import { StreamHelper } from './streamHelpers';
+import { InMemoryCheckpointStore } from './checkpointStores';
+import { BaseEvent } from './types';
+
+interface MoneyMoved extends BaseEvent<'MoneyMoved', { amount: number }> { }
+
+const moved = (amount: number): MoneyMoved => ({ type: 'MoneyMoved', data: { amount } });
+
+// Polls until the condition holds, as the processor applies live transactions in the background
+const until = async (condition: () => boolean | Promise<boolean>, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const readAll = async (client: InMemoryEventStore, streamName: string) => {
+  const events: ResolvedEvent[] = [];
+  for await (const resolvedEvent of client.readStream(streamName)) {
+    events.push(resolvedEvent);
+  }
+  return events;
+};
+
+describe('TransactionProcessor', () => {
+  let client: InMemoryEventStore;
+  let writer: StreamHelper<any, MoneyMoved>;
+
+  beforeEach(() => {
+    client = new InMemoryEventStore();
+    writer = new StreamHelper<any, MoneyMoved>(client, {});
+  });
+
+  it('should apply transactions written before it started and while it runs', async () => {
+    await writer.appendMultiStreamEvents('t1', [
+      { streamId: 'account-a', event: moved(-5) },
+      { streamId: 'account-b', event: moved(5) },
+    ]);
+    const processor = new TransactionProcessor(client);
+    expect(await processor.getTransactionStatus('t1')).toEqual({ status: 'pending', steps: 2, stepsApplied: 0 });
+
+    const running = processor.start();
+    await running.caughtUp;
+    expect(await processor.getTransactionStatus('t1')).toEqual({ status: 'completed' });
+
+    await writer.appendMultiStreamEvents('t2', [{ streamId: 'account-a', event: moved(1) }]);
+    await until(async () => (await processor.getTransactionStatus('t2'))?.status === 'completed');
+    await running.stop();
+
+    expect(await readAll(client, 'account-a')).toHaveLength(2);
+    expect(await readAll(client, 'account-b')).toHaveLength(1);
+    expect(await processor.getTransactionStatus('unknown')).toBeNull();
+  });
+
+  it('should report failed transactions with their reason and move on', async () => {
+    await writer.appendMultiStreamEvents('stale', [{ streamId: 'account-a', event: moved(1), expectedRevision: BigInt(3) }]);
+    await writer.appendMultiStreamEvents('next', [{ streamId: 'account-a', event: moved(2) }]);
+    const processor = new TransactionProcessor(client);
+
+    const running = processor.start();
+    await running.caughtUp;
+    await running.stop();
+
+    expect(await processor.getTransactionStatus('stale')).toEqual({
+      status: 'failed',
+      reason: 'Stream account-a is at revision no_stream, expected 3',
+    });
+    expect(await processor.getTransactionStatus('next')).toEqual({ status: 'completed' });
+  });
+
+  it('should retry transient errors and recover a pending transaction after a restart', async () => {
+    await writer.appendMultiStreamEvents('t1', [
+      { streamId: 'account-a', event: moved(-5) },
+      { streamId: 'account-b', event: moved(5) },
+    ]);
+    const checkpointStore = new InMemoryCheckpointStore();
+    const append = client.appendToStream.bind(client);
+    const outage = jest.spyOn(client, 'appendToStream').mockImplementation(async (streamName, events, options) => {
+      if (streamName === 'account-b') throw new UnavailableError(undefined, 'server unavailable');
+      return append(streamName, events, options);
+    });
+
+    const crashed = new TransactionProcessor(client, { checkpointStore, retry: { maxAttempts: 2, initialDelayMs: 1 } }).start();
+    await expect(crashed.done).rejects.toThrow('server unavailable');
+    const processor = new TransactionProcessor(client, { checkpointStore });
+    expect(await processor.getTransactionStatus('t1')).toEqual({ status: 'pending', steps: 2, stepsApplied: 1 });
+
+    outage.mockRestore();
+    const restarted = processor.start();
+    await restarted.caughtUp;
+    await restarted.stop();
+
+    expect(await processor.getTransactionStatus('t1')).toEqual({ status: 'completed' });
+    expect(await readAll(client, 'account-a')).toHaveLength(1);
+    expect(await readAll(client, 'account-b')).toHaveLength(1);
+  });
+});
+
+describe('with StreamHelper', () => {
+  let client: InMemoryEventStore;
+  let writer: StreamHelper<any, MoneyMoved>;
+
+  beforeEach(() => {
+    client = new InMemoryEventStore();
+    writer = new StreamHelper<any, MoneyMoved>(client, {});
+  });
+
+  it('should apply transaction steps at their recorded revisions and fail on a conflict', async () => {
+    await writer.appendEvent('account-a', moved(1));
+
+    await writer.appendMultiStreamEvents('ok', [{ streamId: 'account-a', event: moved(2), expectedRevision: BigInt(0) }]);
+    await writer.processTransactionStream('$tx-ok');
+    await writer.appendMultiStreamEvents('stale', [
+      { streamId: 'account-b', event: moved(2) },
+      { streamId: 'account-a', event: moved(2), expectedRevision: BigInt(0) },
+    ]);
+    await expect(writer.processTransactionStream('$tx-stale')).rejects.toThrow(WrongExpectedVersionError);
+
+    expect(await readAll(client, 'account-a')).toHaveLength(2);
+    const records = await readAll(client, '$tx-stale');
+    expect(records.map(resolved => resolved.event?.type)).toEqual(['StreamEvent', 'StreamEvent', 'TransactionStepApplied', 'TransactionFailed']);
+    expect(records[3].event?.data).toEqual(expect.objectContaining({ failedStream: 'account-a', step: 1 }));
+  });
+
+  it('should resume a partially applied transaction without applying a step twice', async () => {
+    await writer.appendMultiStreamEvents('t1', [1, 2, 3].map(amount => ({ streamId: `account-${amount}`, event: moved(amount) })));
+
+    // Step 0 is applied but the process dies before recording it; step 1 hits a lost connection
+    const append = client.appendToStream.bind(client);
+    const crashes = jest.spyOn(client, 'appendToStream').mockImplementation(async (streamName, events, options) => {
+      const [event] = Array.isArray(events) ? events : [events];
+      if (event.type === 'TransactionStepApplied' && (event.data as any).step === 0) {
+        crashes.mockImplementation(async (streamName, events, options) => {
+          if (streamName === 'account-2') throw new UnavailableError(undefined, 'connection lost');
+          return append(streamName, events, options);
+        });
+        throw new Error('process died');
+      }
+      return append(streamName, events, options);
+    });
+    await expect(writer.processTransactionStream('$tx-t1')).rejects.toThrow('process died');
+    await expect(writer.processTransactionStream('$tx-t1')).rejects.toThrow('connection lost');
+    crashes.mockRestore();
+
+    await writer.processTransactionStream('$tx-t1');
+    await writer.processTransactionStream('$tx-t1');
+
+    for (const streamId of ['account-1', 'account-2', 'account-3']) {
+      expect(await readAll(client, streamId)).toHaveLength(1);
+    }
+    const records = await readAll(client, '$tx-t1');
+    expect(records.slice(3).map(resolved => [resolved.event?.type, (resolved.event?.data as any).step])).toEqual([
+      ['TransactionStepApplied', 0],
+      ['TransactionStepApplied', 1],
+      ['TransactionStepApplied', 2],
+      ['TransactionCompleted', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * TransactionProcessor applies multi-stream transactions in the background, so they no longer
+ * depend on the writer calling processTransactionStream after appendMultiStreamEvents.
+ *
+ * Features:
+ * - Subscribes to the `$tx` category and processes every transaction without a
+ *   `TransactionCompleted` or `TransactionFailed` record
+ * - Its checkpoint only moves past a transaction once it is processed, so transactions left
+ *   pending by a crashed writer or processor are recovered when the processor starts again
+ * - Transient errors are retried with exponential backoff
+ * - getTransactionStatus reports whether a transaction is pending, completed or failed
+ *
+ * Processing is idempotent, so several processors may run side by side; they apply each step once.
+ */
+import { BaseEvent, CheckpointStore, EventEnvelope, EventStoreClient, JSONType, RetryOptions, StreamConfig } from './types';
+import { StreamHelper } from './streamHelpers';
+import { Subscription, SubscriptionHelper } from './subscriptionHelper';
+import { Logger, noopLogger } from './logger';
+
+type TransactionProcessorConfig = Pick<StreamConfig, 'legacyEventVersion' | 'logger' | 'eventCodec'> & {
+  // Where the processor's checkpoint is kept, defaults to an InMemoryCheckpointStore
+  checkpointStore?: CheckpointStore;
+  // Name the checkpoint is saved under, defaults to 'transaction-processor'
+  processorId?: string;
+  // Attempts and backoff for transient errors before the processor stops
+  retry?: RetryOptions;
+};
+
+export type TransactionStatus =
+  | { status: 'pending'; steps: number; stepsApplied: number }
+  | { status: 'completed' }
+  | { status: 'failed'; reason: string };
+
+// Reads and processes transaction streams for the processor
+class TransactionStreams extends StreamHelper<JSONType, BaseEvent> {
+  read(transactionStreamId: string) {
+    return this.readTransaction(transactionStreamId);
+  }
+}
+
+export class TransactionProcessor {
+  private transactions: TransactionStreams;
+  private subscriptions: SubscriptionHelper<BaseEvent>;
+  private logger: Logger;
+  private processorId: string;
+  private retry: Required<RetryOptions>;
+
+  constructor(client: EventStoreClient, config: TransactionProcessorConfig = {}) {
+    this.transactions = new TransactionStreams(client, config);
+    this.subscriptions = new SubscriptionHelper<BaseEvent>(client, config);
+    this.logger = config.logger ?? noopLogger;
+    this.processorId = config.processorId ?? 'transaction-processor';
+    this.retry = {
+      maxAttempts: 5,
+      initialDelayMs: 100,
+      maxDelayMs: 5000,
+      backoffFactor: 2,
+      ...config.retry,
+    };
+  }
+
+  /**
+   * Subscribes to the transaction streams from the processor's checkpoint and processes each
+   * pending transaction. Failed transactions are logged and skipped; a transaction that keeps
+   * hitting transient errors stops the processor, and is retried on its next start.
+   *
+   * @returns The running subscription; `caughtUp` resolves once the transactions written before
+   * the start have been processed
+   */
+  start(): Subscription {
+    return this.subscriptions.subscribe({
+      subscriptionId: this.processorId,
+      source: { category: '$tx' },
+      handlers: {
+        // The events of a transaction are appended together, so its first event stands for all of them
+        StreamEvent: (_event: BaseEvent, envelope: EventEnvelope) =>
+          envelope.revision === BigInt(0) ? this.process(envelope.streamId) : undefined,
+      },
+    });
+  }
+
+  /**
+   * Reads the status of a transaction from its transaction stream.
+   *
+   * @param transactionId - The ID passed to appendMultiStreamEvents
+   * @returns Promise resolving to the status, or null when the transaction does not exist
+   */
+  async getTransactionStatus(transactionId: string): Promise<TransactionStatus | null> {
+    const { steps, appliedSteps, outcome } = await this.transactions.read(`$tx-${transactionId}`);
+    if (outcome) {
+      return outcome.type === 'failed' ? { status: 'failed', reason: outcome.reason } : { status: 'completed' };
+    }
+    return steps.length > 0 ? { status: 'pending', steps: steps.length, stepsApplied: appliedSteps.size } : null;
+  }
+
+  /**
+   * Processes a transaction, retrying with backoff while it stays pending after an error. An error
+   * that failed the transaction is logged and not thrown, so the processor moves on.
+   */
+  private async process(transactionStreamId: string): Promise<void> {
+    const { maxAttempts, initialDelayMs, maxDelayMs, backoffFactor } = this.retry;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.transactions.processTransactionStream(transactionStreamId);
+        return;
+      } catch (error) {
+        const { outcome } = await this.transactions.read(transactionStreamId);
+        if (outcome?.type === 'failed') {
+          this.logger.warn('Transaction failed', { transactionStreamId, reason: outcome.reason });
+          return;
+        }
+        if (attempt >= maxAttempts) {
+          throw error;
+        }
+
+        const delayMs = Math.min(initialDelayMs * Math.pow(backoffFactor, attempt - 1), maxDelayMs);
+        this.logger.warn('Retrying pending transaction', {
+          transactionStreamId,
+          attempt,
+          delayMs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+}
@@ -1,43 +1,243 @@
-import { JSONEventType } from '@eventstore/db-client';
+import { AppendExpectedRevision, EventStoreDBClient, JSONEventType, Position } from '@eventstore/db-client';
+import { Logger } from './logger';
+import type { EventMigrationRegistry } from './migrationRegistry';
+import type { EventValidators, ReadValidationPolicy } from './eventValidation';
+import type { EventCodec } from './eventCodecs';
+import type { FieldEncryption } from './fieldEncryption';
+import type { MetadataContext } from './metadataContext';
 
 export type JSONType = Record<string, unknown>;
 
+// The subset of EventStoreDBClient used by the helpers, implemented by InMemoryEventStore
+export type EventStoreClient = Pick<
+  EventStoreDBClient,
+  | 'appendToStream'
+  | 'readStream'
+  | 'readAll'
+  | 'getStreamMetadata'
+  | 'setStreamMetadata'
+  | 'deleteStream'
+  | 'subscribeToStream'
+  | 'subscribeToAll'
+  | 'createPersistentSubscriptionToStream'
+  | 'updatePersistentSubscriptionToStream'
+  | 'getPersistentSubscriptionToStreamInfo'
+  | 'subscribeToPersistentSubscriptionToStream'
+>;
+
 export type EventMetadata = Record<string, unknown>;
 
 export type BaseEvent<T extends string = string, D extends JSONType = JSONType> = {
+  // Idempotency key of the event, mapped to a deterministic event ID on append
+  id?: string;
   type: T;
   data: D;
   version?: number;
   metadata?: EventMetadata;
 };
 
+// Stored details of an event, passed to reducers and read APIs next to the decoded event
+export type EventEnvelope = {
+  id: string;
+  streamId: string;
+  revision: bigint;
+  // Position in the transaction log, when the read returned it
+  position?: Position;
+  // Server timestamp of the write
+  created: Date;
+  // Version the event was stored at, before migration
+  schemaVersion: number;
+  // Correlation and causation IDs from the stored metadata
+  correlationId?: string;
+  causationId?: string;
+};
+
+export type EnvelopedEvent<E extends BaseEvent = BaseEvent> = {
+  event: E;
+  envelope: EventEnvelope;
+};
+
+// Reducer folding an event into the state; the envelope may be ignored
+export type ApplyEvent<S, E extends BaseEvent> = (state: S | null, event: E, envelope: EventEnvelope) => S;
+
+export type AppendOptions = {
+  expectedRevision?: AppendExpectedRevision;
+  // Schema version to write the events at, downcasting them with the migration registry
+  schemaVersion?: number;
+  // Key the event IDs are derived from, so retrying the same write is a no-op
+  idempotencyKey?: string;
+  // Correlation and causation IDs to stamp, instead of the ambient metadata context
+  metadataContext?: MetadataContext;
+};
+
+export type AppendEventsResult = {
+  // Revision of the last appended event, to pass as expectedRevision on the next write
+  nextExpectedRevision: bigint;
+  // Commit and prepare position of the write in the transaction log
+  position?: Position;
+  // IDs of the appended events, in order
+  eventIds: string[];
+};
+
+export type RetryOptions = {
+  // Total number of attempts, including the first one
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+};
+
+export type CommandResult<S> = {
+  // State after applying the decided events
+  state: S | null;
+  version: number;
+  // Events appended by the command, empty when the decision produced none or the command was already handled
+  events: BaseEvent[];
+  // Result of the append, or of the earlier write of an already handled command; null when nothing was appended
+  appendResult: AppendEventsResult | null;
+  attempts: number;
+};
+
 export type SnapshotEventType = JSONEventType<
   'snapshot',
   {
     state: JSONType;
     version: number;
+    revision?: string;
     timestamp: string;
+    schemaVersion?: number;
   }
 >;
 
 export type Snapshot<S> = {
   state: S;
+  // Number of stored events the state was built from
   version: number;
+  // Stream revision of the last of those events as a decimal string, absent in snapshots written
+  // before revisions were recorded
+  revision?: string;
   timestamp: string;
+  // Schema version of the state, snapshots written before versioning count as 1
+  schemaVersion?: number;
 };
 
+// Converts a snapshot written with an older schema version, or returns null to discard it
+export type SnapshotUpcaster<S = JSONType> = (
+  snapshot: Snapshot<JSONType>
+) => Snapshot<S> | null | Promise<Snapshot<S> | null>;
+
+export type SnapshotStore<S = JSONType> = {
+  load(streamId: string): Promise<Snapshot<S> | null>;
+  save(streamId: string, snapshot: Snapshot<S>): Promise<void>;
+  delete(streamId: string): Promise<void>;
+};
+
+// How far a subscription got: the revision of the last handled stream event, or its position in $all
+export type Checkpoint = { revision: bigint } | { position: Position };
+
+export type CheckpointStore = {
+  load(subscriptionId: string): Promise<Checkpoint | null>;
+  save(subscriptionId: string, checkpoint: Checkpoint): Promise<void>;
+  delete(subscriptionId: string): Promise<void>;
+};
+
+// A write to a read model document, identified by collection and ID
+export type ReadModelChange =
+  | { type: 'set'; collection: string; id: string; document: JSONType }
+  | { type: 'delete'; collection: string; id: string };
+
+// Document store for projection read models, keeping each projection's checkpoint next to its documents
+export type ReadModelStore = {
+  get<T extends JSONType = JSONType>(collection: string, id: string): Promise<T | null>;
+  list<T extends JSONType = JSONType>(collection: string): Promise<T[]>;
+  // Applies the changes and saves the projection's checkpoint together, atomically where the store can
+  commit(projectionId: string, changes: ReadModelChange[], checkpoint: Checkpoint): Promise<void>;
+  loadCheckpoint(projectionId: string): Promise<Checkpoint | null>;
+  // Deletes the given collections and the projection's checkpoint
+  reset(projectionId: string, collections: string[]): Promise<void>;
+};
+
+// Holds one encryption key per data subject; deleting a key crypto-shreds the subject's fields
+export type KeyStore = {
+  // Returns the subject's key, or null when it was never created or has been deleted
+  get(subjectId: string): Promise<Uint8Array | null>;
+  // Returns the subject's key, creating it on first use
+  getOrCreate(subjectId: string): Promise<Uint8Array>;
+  delete(subjectId: string): Promise<void>;
+};
+
+export type SnapshotPolicyContext = {
+  streamId: string;
+  // Version of the rebuilt state
+  version: number;
+  // Version and write time of the snapshot the state was loaded from, if any
+  lastSnapshotVersion: number;
+  lastSnapshotTimestamp: string | null;
+  eventsSinceLastSnapshot: number;
+  replayDurationMs: number;
+};
+
+// Decides after each state rebuild whether a snapshot should be written
+export type SnapshotPolicy = (context: SnapshotPolicyContext) => boolean;
+
 export type StreamConfig<E extends BaseEvent = BaseEvent> = {
   snapshotFrequency?: number;
+  // Decides when to snapshot, defaults to eventsSinceLastSnapshot(snapshotFrequency)
+  snapshotPolicy?: SnapshotPolicy;
   snapshotPrefix?: string;
+  // Number of snapshots kept in a snapshot stream, set as its $maxCount
+  snapshotMaxCount?: number;
+  // Where snapshots are kept, defaults to an EventStoreSnapshotStore using the options above
+  snapshotStore?: SnapshotStore;
+  // Version of the state shape; snapshots with another version are upcast or discarded
+  snapshotSchemaVersion?: number;
+  snapshotUpcaster?: SnapshotUpcaster;
   currentEventVersion?: number;
-  eventMigrations?: EventMigration<E, E>[];
+  // Version assumed for stored events without a version in their metadata
+  legacyEventVersion?: number;
+  // A registry, or a flat list of migrations validated into one
+  eventMigrations?: EventMigrationRegistry<E> | EventMigrationStep<E>[];
+  logger?: Logger;
+  // Retry and backoff used by handleCommand on concurrency conflicts
+  commandRetry?: RetryOptions;
+  // Validators per event type, run before every append
+  eventValidators?: EventValidators;
+  // Whether events read back are validated too, defaults to 'off'
+  readValidation?: ReadValidationPolicy;
+  // Serialization of event data, defaults to jsonCodec()
+  eventCodec?: EventCodec;
+  // Encrypts personal data fields on append and decrypts them on read
+  fieldEncryption?: FieldEncryption<E>;
 };
 
+// The part of StreamConfig that decides how events are read, shared by every helper that reads events
+export type ReadPipelineConfig<E extends BaseEvent = BaseEvent> = Pick<
+  StreamConfig<E>,
+  'legacyEventVersion' | 'eventMigrations' | 'logger' | 'eventValidators' | 'readValidation' | 'eventCodec' | 'fieldEncryption'
+>;
+
+// A migration may return one event, several (split), none (drop), or a promise of those
+export type MigrationResult<Target extends BaseEvent> = Target | Target[] | Promise<Target | Target[]>;
+
 export type EventMigration<Source extends BaseEvent, Target extends BaseEvent = Source> = {
   fromVersion: number;
   toVersion: number;
   eventType: Source['type'];
-  migrate: (event: Source) => Target;
+  migrate: (event: Source) => MigrationResult<Target>;
+};
+
+// A migration from one member of the event union E to events of E
+export type EventMigrationStep<E extends BaseEvent> = MigrationFrom<E, E>;
+
+// Distributes over Source, so each member gets its own migration type
+type MigrationFrom<Source extends BaseEvent, E extends BaseEvent> = Source extends BaseEvent ? EventMigration<Source, E> : never;
+
+// Converts an event to an older schema version, for consumers that have not upgraded yet
+export type EventDowncaster<Source extends BaseEvent, Target extends BaseEvent = Source> = {
+  fromVersion: number;
+  toVersion: number;
+  eventType: Source['type'];
+  downcast: (event: Source) => Target | Promise<Target>;
 };
 
 export type JSONCompatible<T extends Record<string, unknown>> = {
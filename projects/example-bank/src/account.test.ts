@@ -1,10 +1,11 @@
 import { EventStoreDBClient } from '@eventstore/db-client';
-import { StreamHelper } from '@eventstore-helpers/core';
+import { InMemoryEventStore, StreamHelper } from '@eventstore-helpers/core';
 import { AccountAggregate } from './account';
 import { BankAccount, BankAccountEvent, TransactionMetadata } from './types';
 
 const mockUUID = 'test-uuid';
 jest.mock('crypto', () => ({
+  ...jest.requireActual('crypto'),
   randomUUID: () => mockUUID
 }));
 
@@ -15,6 +16,7 @@ describe('AccountAggregate', () => {
   beforeEach(() => {
     mockStreamHelper = {
       appendEvent: jest.fn().mockResolvedValue(undefined),
+      appendEvents: jest.fn().mockResolvedValue({ nextExpectedRevision: BigInt(1), eventIds: ['test-uuid'] }),
       getCurrentState: jest.fn().mockResolvedValue({
         state: {
           id: 'account-test-uuid',
@@ -36,6 +38,12 @@ describe('AccountAggregate', () => {
         version: 1
       }),
     } as unknown as jest.Mocked<StreamHelper<BankAccount, BankAccountEvent>>;
+    mockStreamHelper.handleCommand = jest.fn(async (streamId, applyEvent, decide) => {
+      const { state, version } = await mockStreamHelper.getCurrentState(streamId, applyEvent);
+      const events = await decide(state, version);
+      const appendResult = await mockStreamHelper.appendEvents(streamId, events);
+      return { state, version: version + events.length, events, appendResult, attempts: 1 };
+    }) as jest.Mocked<StreamHelper<BankAccount, BankAccountEvent>>['handleCommand'];
 
     accountAggregate = new AccountAggregate(mockStreamHelper);
   });
@@ -66,7 +74,8 @@ describe('AccountAggregate', () => {
             accountType,
           }),
           metadata,
-        })
+        }),
+        { idempotencyKey: 'test-uuid' }
       );
     });
   });
@@ -94,7 +103,8 @@ describe('AccountAggregate', () => {
             description,
           }),
           metadata,
-        })
+        }),
+        { idempotencyKey: 'test-uuid' }
       );
     });
 
@@ -124,11 +134,18 @@ describe('AccountAggregate', () => {
         transactionId: 'test-uuid'
       };
 
-      await accountAggregate.withdraw(accountId, amount, description, metadata);
+      const appendResult = await accountAggregate.withdraw(accountId, amount, description, metadata);
 
-      expect(mockStreamHelper.appendEvent).toHaveBeenCalledWith(
+      expect(mockStreamHelper.handleCommand).toHaveBeenCalledWith(
         'account-test-uuid',
-        expect.objectContaining({
+        expect.any(Function),
+        expect.any(Function),
+        {},
+        { idempotencyKey: 'test-uuid' }
+      );
+      expect(mockStreamHelper.appendEvents).toHaveBeenCalledWith(
+        'account-test-uuid',
+        [expect.objectContaining({
           type: 'MoneyWithdrawn',
           version: 1,
           data: expect.objectContaining({
@@ -136,8 +153,21 @@ describe('AccountAggregate', () => {
             description,
           }),
           metadata,
-        })
+        })]
       );
+      expect(appendResult.nextExpectedRevision).toBe(BigInt(1));
+    });
+
+    it('should withdraw once when a withdrawal is repeated', async () => {
+      const accounts = new AccountAggregate(new StreamHelper<BankAccount, BankAccountEvent>(new InMemoryEventStore(), {}));
+      const withdrawal: TransactionMetadata = { userId: 'test-user', source: 'test', transactionId: 'withdrawal-1' };
+      await accounts.createAccount('test-uuid', 'John Doe', 1000, 'checking', { ...withdrawal, transactionId: 'opening' });
+
+      const first = await accounts.withdraw('test-uuid', 300, 'ATM withdrawal', withdrawal);
+      const repeated = await accounts.withdraw('test-uuid', 300, 'ATM withdrawal', withdrawal);
+
+      expect(repeated).toEqual(first);
+      expect((await accounts.getAccount('test-uuid'))?.balance).toBe(700);
     });
 
     it('should fail to withdraw from non-existent account', async () => {
@@ -221,5 +251,31 @@ describe('AccountAggregate', () => {
       expect(() => accountAggregate['applyEvent'](state, unknownEvent))
         .toThrow('Unknown event type: UnknownEvent');
     });
+
+    it('should take timestamps from the event envelope when given', () => {
+      const event: BankAccountEvent = {
+        type: 'AccountCreated',
+        version: 1,
+        data: {
+          id: 'account-test-uuid',
+          owner: 'John Doe',
+          initialBalance: 1000,
+          accountType: 'checking',
+          timestamp: '2025-01-20T15:49:09-05:00'
+        }
+      };
+      const envelope = {
+        id: 'event-id',
+        streamId: 'account-test-uuid',
+        revision: BigInt(0),
+        created: new Date('2025-01-21T08:00:00.000Z'),
+        schemaVersion: 1
+      };
+
+      const state = accountAggregate.applyEvent(null, event, envelope);
+
+      expect(state.createdAt).toBe('2025-01-21T08:00:00.000Z');
+      expect(accountAggregate.applyEvent(null, event).createdAt).toBe('2025-01-20T15:49:09-05:00');
+    });
   });
 });
@@ -1,5 +1,5 @@
-import { StreamHelper } from '@eventstore-helpers/core';
-import type { StreamConfig } from '@eventstore-helpers/core';
+import { StreamHelper, noopLogger } from '@eventstore-helpers/core';
+import type { AppendEventsResult, EventEnvelope, Logger, StreamConfig } from '@eventstore-helpers/core';
 import { EventStoreDBClient } from '@eventstore/db-client';
 import { BankAccount, BankAccountEvent, TransactionMetadata } from './types';
 import { migrations } from './migrations';
@@ -7,19 +7,23 @@ import crypto from 'crypto';
 
 export class AccountAggregate {
   private streamHelper: StreamHelper<BankAccount, BankAccountEvent>;
+  private logger: Logger;
   private static SNAPSHOT_FREQUENCY = 5;
   public static readonly CURRENT_EVENT_VERSION = 1;
 
-  constructor(streamHelper: StreamHelper<BankAccount, BankAccountEvent>) {
+  constructor(streamHelper: StreamHelper<BankAccount, BankAccountEvent>, logger: Logger = noopLogger) {
     this.streamHelper = streamHelper;
+    this.logger = logger;
   }
 
-  public applyEvent(state: BankAccount | null, event: BankAccountEvent): BankAccount {
-    console.log('Applying event:', event.type, 'to state:', state);
+  public applyEvent(state: BankAccount | null, event: BankAccountEvent, envelope?: EventEnvelope): BankAccount {
+    // Prefer the server timestamp of the stored event over the client-side one in the event data
+    const timestamp = envelope?.created.toISOString() ?? event.data.timestamp;
+    this.logger.debug('Applying event', { eventType: event.type, accountId: state?.id ?? null });
     switch (event.type) {
       case 'AccountCreated': {
         if (state) {
-          console.error('Unexpected AccountCreated event for existing state');
+          this.logger.error('Unexpected AccountCreated event for existing state', { accountId: state.id });
           throw new Error('AccountCreated can only be the first event');
         }
         
@@ -28,21 +32,20 @@ export class AccountAggregate {
           owner: event.data.owner,
           balance: event.data.initialBalance,
           version: AccountAggregate.CURRENT_EVENT_VERSION,
-          createdAt: event.data.timestamp,
-          updatedAt: event.data.timestamp,
+          createdAt: timestamp,
+          updatedAt: timestamp,
           accountType: event.data.accountType || 'checking',
           type: event.type,
           data: event.data,
           metadata: event.metadata
         };
-        
-        console.log('Created initial state:', newState);
+
         return newState;
       }
 
       case 'MoneyDeposited': {
         if (!state) {
-          console.error('Cannot deposit into non-existent account');
+          this.logger.error('Cannot deposit into non-existent account', { eventType: event.type });
           throw new Error('First event must be AccountCreated');
         }
         
@@ -50,12 +53,11 @@ export class AccountAggregate {
           ...state,
           balance: state.balance + event.data.amount,
           version: state.version + 1,
-          updatedAt: event.data.timestamp,
+          updatedAt: timestamp,
           type: event.type,
           data: event.data,
           metadata: event.metadata
         };
-        console.log('Updated state after deposit:', newState);
         return newState;
       }
 
@@ -67,12 +69,11 @@ export class AccountAggregate {
           ...state,
           balance: state.balance - event.data.amount,
           version: state.version + 1,
-          updatedAt: event.data.timestamp,
+          updatedAt: timestamp,
           type: event.type,
           data: event.data,
           metadata: event.metadata
         };
-        console.log('Updated state after withdrawal:', newState);
         return newState;
       }
 
@@ -84,9 +85,7 @@ export class AccountAggregate {
   }
 
   private getStreamId(accountId: string): string {
-    const streamId = `account-${accountId}`;
-    console.log('Generated stream ID:', streamId, 'for account:', accountId);
-    return streamId;
+    return `account-${accountId}`;
   }
 
   async createAccount(
@@ -95,9 +94,8 @@ export class AccountAggregate {
     initialBalance: number,
     accountType: string,
     metadata: TransactionMetadata
-  ): Promise<void> {
+  ): Promise<AppendEventsResult> {
     const streamId = this.getStreamId(accountId);
-    console.log('Creating account with stream ID:', streamId);
 
     const event: BankAccountEvent = {
       type: 'AccountCreated',
@@ -112,9 +110,12 @@ export class AccountAggregate {
       metadata,
     };
 
-    console.log('Appending AccountCreated event:', event);
-    await this.streamHelper.appendEvent(streamId, event);
-    console.log('Successfully appended AccountCreated event');
+    // A retried request with the same transactionId maps to the same event ID and is not written twice
+    const appendResult = await this.streamHelper.appendEvent(streamId, event, {
+      idempotencyKey: metadata.transactionId,
+    });
+    this.logger.info('Created account', { streamId, eventType: event.type });
+    return appendResult;
   }
 
   async deposit(
@@ -122,15 +123,13 @@ export class AccountAggregate {
     amount: number,
     description: string,
     metadata: TransactionMetadata
-  ): Promise<void> {
+  ): Promise<AppendEventsResult> {
     const streamId = this.getStreamId(accountId);
-    console.log('Depositing to stream:', streamId);
 
     const result = await this.streamHelper.getCurrentState(streamId, this.applyEvent.bind(this));
-    console.log('Current account state:', result?.state);
 
     if (!result?.state) {
-      console.error('Account not found for deposit:', streamId);
+      this.logger.warn('Account not found for deposit', { streamId });
       throw new Error('Account not found');
     }
 
@@ -148,9 +147,11 @@ export class AccountAggregate {
       metadata,
     };
 
-    console.log('Appending MoneyDeposited event:', event);
-    await this.streamHelper.appendEvent(streamId, event);
-    console.log('Successfully appended MoneyDeposited event');
+    const appendResult = await this.streamHelper.appendEvent(streamId, event, {
+      idempotencyKey: metadata.transactionId,
+    });
+    this.logger.info('Deposited money', { streamId, eventType: event.type, version: result.version });
+    return appendResult;
   }
 
   async withdraw(
@@ -158,49 +159,51 @@ export class AccountAggregate {
     amount: number,
     description: string,
     metadata: TransactionMetadata
-  ): Promise<void> {
+  ): Promise<AppendEventsResult> {
     const streamId = this.getStreamId(accountId);
-    console.log('Withdrawing from stream:', streamId);
-
-    const result = await this.streamHelper.getCurrentState(streamId, this.applyEvent.bind(this));
-    console.log('Current account state:', result?.state);
-
-    if (!result?.state) {
-      console.error('Account not found for withdrawal:', streamId);
-      throw new Error('Account not found');
-    }
 
-    const currentState = result.state as BankAccount;
-    const newBalance = currentState.balance - amount;
+    // The balance check and the append run against the same revision and are retried on conflicts,
+    // so concurrent withdrawals cannot overdraw the account
+    const result = await this.streamHelper.handleCommand(
+      streamId,
+      this.applyEvent.bind(this),
+      (state): BankAccountEvent[] => {
+        if (!state) {
+          this.logger.warn('Account not found for withdrawal', { streamId });
+          throw new Error('Account not found');
+        }
 
-    if (newBalance < 0) {
-      throw new Error('Insufficient funds');
-    }
+        if (state.balance - amount < 0) {
+          throw new Error('Insufficient funds');
+        }
 
-    const event: BankAccountEvent = {
-      type: 'MoneyWithdrawn',
-      version: 1,
-      data: {
-        amount,
-        description,
-        timestamp: new Date().toISOString(),
+        return [{
+          type: 'MoneyWithdrawn',
+          version: 1,
+          data: {
+            amount,
+            description,
+            timestamp: new Date().toISOString(),
+          },
+          metadata,
+        }];
       },
-      metadata,
-    };
+      {},
+      // A repeated request is recognized by its transaction ID and not withdrawn twice
+      { idempotencyKey: metadata.transactionId }
+    );
 
-    console.log('Appending MoneyWithdrawn event:', event);
-    await this.streamHelper.appendEvent(streamId, event);
-    console.log('Successfully appended MoneyWithdrawn event');
+    this.logger.info('Withdrew money', { streamId, eventType: 'MoneyWithdrawn', version: result.version });
+    return result.appendResult!;
   }
 
   async getAccount(accountId: string): Promise<BankAccount | null> {
     // If accountId already starts with 'account-', use it as is, otherwise add the prefix
     const streamId = accountId.startsWith('account-') ? accountId : this.getStreamId(accountId);
-    console.log('Getting account state for stream:', streamId);
-    
+
     const result = await this.streamHelper.getCurrentState(streamId, this.applyEvent.bind(this));
-    console.log('Got account state:', result?.state ?? null);
-    
+    this.logger.debug('Loaded account', { streamId, version: result?.version ?? 0 });
+
     return result?.state ?? null;
   }
 }
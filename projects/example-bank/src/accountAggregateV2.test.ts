@@ -15,7 +15,10 @@ import { jest } from '@jest/globals';
 
 jest.mock('@eventstore-helpers/core', () => {
   let pendingEvents: any[] = [];
+  const { EventMigrationRegistry, jsonSchemaValidator } = jest.requireActual<typeof import('@eventstore-helpers/core')>('@eventstore-helpers/core');
   return {
+    EventMigrationRegistry,
+    jsonSchemaValidator,
     AggregateHelper: jest.fn().mockImplementation(function(this: any, ...args: any[]) {
       const client = args[0] as EventStoreDBClient;
       return {
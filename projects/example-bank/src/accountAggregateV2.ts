@@ -2,6 +2,7 @@ import { AggregateHelper } from '@eventstore-helpers/core';
 import { EventStoreDBClient } from '@eventstore/db-client';
 import { BankAccount, BankAccountEvent, TransactionMetadata } from './types';
 import { migrations } from './migrations';
+import { accountEventValidators } from './validators';
 import crypto from 'crypto';
 
 interface TransactionEntity {
@@ -18,7 +19,8 @@ export class AccountAggregateV2 {
     this.aggregateHelper = new AggregateHelper(client, {
       snapshotFrequency: 5,
       currentEventVersion: AccountAggregateV2.CURRENT_EVENT_VERSION,
-      eventMigrations: migrations as any,
+      eventMigrations: migrations,
+      eventValidators: accountEventValidators,
       aggregatePrefix: 'account-',
       entityPrefixes: {
         transaction: 'transaction',
@@ -1,5 +1,5 @@
-import { EventMigration } from '@eventstore-helpers/core';
-import { AccountEventV1, AccountEventV2 } from './types';
+import { EventDowncaster, EventMigration, EventMigrationRegistry } from '@eventstore-helpers/core';
+import { AccountEventV1, AccountEventV2, BankAccountEvent } from './types';
 import crypto from 'crypto';
 
 // Example migration from V1 to V2 for AccountCreated event
@@ -58,9 +58,24 @@ export const moneyWithdrawnV1ToV2: EventMigration<
   }),
 };
 
-// Collection of all migrations
-export const migrations = [
-  accountCreatedV1ToV2,
-  moneyDepositedV1ToV2,
-  moneyWithdrawnV1ToV2,
-];
+// Downcaster for consumers that still expect V1 MoneyDeposited events without a transactionId
+export const moneyDepositedV2ToV1: EventDowncaster<
+  Extract<AccountEventV2, { type: 'MoneyDeposited' }>,
+  Extract<AccountEventV1, { type: 'MoneyDeposited' }>
+> = {
+  fromVersion: 2,
+  toVersion: 1,
+  eventType: 'MoneyDeposited',
+  downcast: ({ transactionId: _transactionId, ...event }) => ({
+    ...event,
+    version: 1,
+  }),
+};
+
+// Registry of all migrations and downcasters, validated when the module loads
+export const migrations = EventMigrationRegistry.builder<BankAccountEvent>()
+  .chain(accountCreatedV1ToV2)
+  .chain(moneyDepositedV1ToV2)
+  .chain(moneyWithdrawnV1ToV2)
+  .addDowncaster(moneyDepositedV2ToV1)
+  .build();
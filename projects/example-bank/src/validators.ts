@@ -0,0 +1,37 @@
+import { EventValidators, jsonSchemaValidator } from '@eventstore-helpers/core';
+
+const amount = { type: 'number', minimum: 0.01 } as const;
+const timestamp = { type: 'string', minLength: 1 } as const;
+
+// Validators for the data of every bank account event, checked before each append
+export const accountEventValidators: EventValidators = {
+  AccountCreated: jsonSchemaValidator({
+    type: 'object',
+    required: ['id', 'owner', 'initialBalance', 'timestamp'],
+    properties: {
+      id: { type: 'string', minLength: 1 },
+      owner: { type: 'string', minLength: 1 },
+      initialBalance: { type: 'number', minimum: 0 },
+      accountType: { type: 'string', enum: ['checking', 'savings'] },
+      timestamp,
+    },
+  }),
+  MoneyDeposited: jsonSchemaValidator({
+    type: 'object',
+    required: ['amount', 'timestamp'],
+    properties: {
+      amount,
+      description: { type: 'string' },
+      timestamp,
+    },
+  }),
+  MoneyWithdrawn: jsonSchemaValidator({
+    type: 'object',
+    required: ['amount', 'timestamp'],
+    properties: {
+      amount,
+      description: { type: 'string' },
+      timestamp,
+    },
+  }),
+};